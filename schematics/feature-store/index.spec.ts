@@ -0,0 +1,108 @@
+import { Tree } from '@angular-devkit/schematics';
+import {
+  SchematicTestRunner,
+  UnitTestTree,
+} from '@angular-devkit/schematics/testing';
+import * as path from 'path';
+
+const collectionPath = path.join(__dirname, '../collection.json');
+const folder = '/src/app/features/vulnerabilities';
+
+describe('feature-store schematic', () => {
+  const runner = new SchematicTestRunner('schematics', collectionPath);
+  let appTree: UnitTestTree;
+
+  beforeEach(() => {
+    appTree = new UnitTestTree(Tree.empty());
+  });
+
+  function run(options: Record<string, unknown>): Promise<UnitTestTree> {
+    return runner.runSchematic(
+      'feature-store',
+      { name: 'vulnerabilities', ...options },
+      appTree,
+    );
+  }
+
+  it('should generate the state files, specs, model, service and routes', async () => {
+    const tree = await run({ entity: 'Vulnerability' });
+
+    expect(tree.files.filter((file) => file.startsWith(folder)).sort()).toEqual(
+      [
+        `${folder}/models/vulnerability.model.ts`,
+        `${folder}/services/vulnerabilities.service.ts`,
+        `${folder}/state/vulnerabilities.actions.ts`,
+        `${folder}/state/vulnerabilities.effects.spec.ts`,
+        `${folder}/state/vulnerabilities.effects.ts`,
+        `${folder}/state/vulnerabilities.reducer.spec.ts`,
+        `${folder}/state/vulnerabilities.reducer.ts`,
+        `${folder}/state/vulnerabilities.selectors.spec.ts`,
+        `${folder}/state/vulnerabilities.selectors.ts`,
+        `${folder}/state/vulnerabilities.state.ts`,
+        `${folder}/vulnerabilities.routes.ts`,
+      ],
+    );
+    expect(tree.readText(`${folder}/state/vulnerabilities.state.ts`)).toContain(
+      `from '../../../shared/state';`,
+    );
+    expect(tree.readText(`${folder}/vulnerabilities.routes.ts`)).toContain(
+      'provideState(vulnerabilitiesFeatureKey, vulnerabilitiesReducer)',
+    );
+  });
+
+  it('should only generate the requested operations', async () => {
+    const tree = await run({ entity: 'Vulnerability', crud: 'load,add,update' });
+    const actions = tree.readText(`${folder}/state/vulnerabilities.actions.ts`);
+    const effects = tree.readText(`${folder}/state/vulnerabilities.effects.ts`);
+
+    expect(actions).toContain('createUpdateActions');
+    expect(actions).not.toContain('createDeleteActions');
+    expect(effects).toContain('export const updateVulnerability');
+    expect(effects).not.toContain('deleteVulnerability');
+  });
+
+  it('should register the store in existing feature routes', async () => {
+    appTree.create(
+      `${folder}/vulnerabilities.routes.ts`,
+      [
+        `import { Routes } from '@angular/router';`,
+        '',
+        'export const vulnerabilitiesRoutes: Routes = [',
+        `  { path: '', loadComponent: () => import('./list.component') },`,
+        '];',
+        '',
+      ].join('\n'),
+    );
+
+    const tree = await run({ entity: 'Vulnerability' });
+    const routes = tree.readText(`${folder}/vulnerabilities.routes.ts`);
+
+    expect(routes).toContain(`import { provideState } from '@ngrx/store';`);
+    expect(routes).toContain(
+      `import * as vulnerabilitiesEffects from './state/vulnerabilities.effects';`,
+    );
+    expect(routes).toMatch(
+      /\[\s*\{\s*providers: \[\s*provideState\(vulnerabilitiesFeatureKey, vulnerabilitiesReducer\),\s*provideEffects\(vulnerabilitiesEffects\),\s*\],\s*path: ''/,
+    );
+  });
+
+  it('should keep an existing model and skip specs on request', async () => {
+    appTree.create(
+      `${folder}/models/vulnerability.model.ts`,
+      'export interface Vulnerability { cve: string }\n',
+    );
+
+    const tree = await run({ entity: 'Vulnerability', skipTests: true });
+
+    expect(tree.readText(`${folder}/models/vulnerability.model.ts`)).toContain(
+      'cve',
+    );
+    expect(tree.files.some((file) => file.endsWith('.spec.ts'))).toBeFalse();
+  });
+
+  it('should reject unknown operations', async () => {
+    await expectAsync(run({ crud: 'load,archive' })).toBeRejectedWithError(
+      /--crud must list/,
+    );
+  });
+});
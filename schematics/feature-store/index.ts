@@ -0,0 +1,178 @@
+import { join, normalize, Path, relative, strings } from '@angular-devkit/core';
+import {
+  apply,
+  applyTemplates,
+  chain,
+  filter,
+  mergeWith,
+  move,
+  Rule,
+  SchematicContext,
+  SchematicsException,
+  Tree,
+  url,
+} from '@angular-devkit/schematics';
+
+import { FeatureStoreSchema } from './schema';
+
+const OPERATIONS = ['load', 'add', 'update', 'delete'] as const;
+const SHARED_STATE_PATH = 'src/app/shared/state';
+
+type Operation = (typeof OPERATIONS)[number];
+
+function parseCrud(crud: string): Record<Operation, boolean> {
+  const requested = crud
+    .split(',')
+    .map((operation) => operation.trim())
+    .filter(Boolean);
+  const unknown = requested.filter(
+    (operation) => !OPERATIONS.includes(operation as Operation),
+  );
+  if (unknown.length || !requested.length) {
+    throw new SchematicsException(
+      `--crud must list one or more of ${OPERATIONS.join(', ')} (got "${crud}")`,
+    );
+  }
+  return Object.fromEntries(
+    OPERATIONS.map((operation) => [operation, requested.includes(operation)]),
+  ) as Record<Operation, boolean>;
+}
+
+// Formats a named import the way prettier does: one line when it fits in 80 columns
+function namedImport(names: string[], from: string): string {
+  const line = `import { ${names.join(', ')} } from '${from}';`;
+  return line.length <= 80
+    ? line
+    : `import {\n${names.map((name) => `  ${name},\n`).join('')}} from '${from}';`;
+}
+
+// Inserts text after the end of the last import statement
+function addImports(source: string, imports: string[]): string {
+  const statements = [...source.matchAll(/^import[\s\S]*?;[^\S\n]*$/gm)];
+  const last = statements[statements.length - 1];
+  const at = last ? last.index! + last[0].length : 0;
+  const text = imports.join('\n');
+  return last
+    ? `${source.slice(0, at)}\n${text}${source.slice(at)}`
+    : `${text}\n\n${source}`;
+}
+
+// Adds provideState/provideEffects to the first route, creating the routes file if needed
+function registerInRoutes(folder: Path, options: FeatureStoreSchema): Rule {
+  return (tree: Tree, context: SchematicContext) => {
+    const name = strings.dasherize(options.name);
+    const key = strings.camelize(options.name);
+    const routesPath = join(folder, `${name}.routes.ts`);
+    const providers = [
+      `provideState(${key}FeatureKey, ${key}Reducer)`,
+      `provideEffects(${key}Effects)`,
+    ];
+    const imports = [
+      `import * as ${key}Effects from './state/${name}.effects';`,
+      `import { ${key}Reducer } from './state/${name}.reducer';`,
+      `import { ${key}FeatureKey } from './state/${name}.state';`,
+    ];
+
+    if (!tree.exists(routesPath)) {
+      tree.create(
+        routesPath,
+        [
+          `import { Routes } from '@angular/router';`,
+          `import { provideEffects } from '@ngrx/effects';`,
+          `import { provideState } from '@ngrx/store';`,
+          '',
+          ...imports,
+          '',
+          `export const ${key}Routes: Routes = [`,
+          '  {',
+          `    path: '',`,
+          '    providers: [',
+          ...providers.map((provider) => `      ${provider},`),
+          '    ],',
+          '    children: [],',
+          '  },',
+          '];',
+          '',
+        ].join('\n'),
+      );
+      context.logger.info(
+        `Created ${routesPath}; lazy-load it from app.routes.ts with loadChildren.`,
+      );
+      return tree;
+    }
+
+    let source = tree.readText(routesPath);
+    if (source.includes(`${key}FeatureKey`)) {
+      context.logger.info(`${routesPath} already registers the ${key} store.`);
+      return tree;
+    }
+
+    const missingImports = [
+      ...(source.includes('provideEffects')
+        ? []
+        : [`import { provideEffects } from '@ngrx/effects';`]),
+      ...(source.includes('provideState')
+        ? []
+        : [`import { provideState } from '@ngrx/store';`]),
+    ];
+    const existingProviders = /providers:\s*\[/.exec(source);
+    const firstRoute = /Routes\s*=\s*\[\s*\{/.exec(source);
+    if (existingProviders) {
+      const at = existingProviders.index + existingProviders[0].length;
+      source = `${source.slice(0, at)}\n      ${providers.join(',\n      ')},${source.slice(at)}`;
+    } else if (firstRoute) {
+      const at = firstRoute.index + firstRoute[0].length;
+      source = `${source.slice(0, at)}\n    providers: [\n      ${providers.join(',\n      ')},\n    ],${source.slice(at)}`;
+    } else {
+      throw new SchematicsException(
+        `Could not find a route in ${routesPath}. Add ${providers.join(' and ')} to its providers by hand.`,
+      );
+    }
+
+    source = addImports(source, [...missingImports, ...imports]);
+    tree.overwrite(routesPath, source);
+    return tree;
+  };
+}
+
+export function featureStore(options: FeatureStoreSchema): Rule {
+  return (tree: Tree) => {
+    const crud = parseCrud(options.crud);
+    const entity = options.entity ?? strings.classify(options.name);
+    const root = join(normalize('/'), options.path);
+    const folder = join(root, strings.dasherize(options.name));
+    const sharedState = (from: string) =>
+      relative(join(folder, from), join(normalize('/'), SHARED_STATE_PATH));
+
+    const templates = apply(url('./files'), [
+      filter(
+        (path) => !options.skipTests || !path.endsWith('.spec.ts.template'),
+      ),
+      applyTemplates({
+        ...strings,
+        ...options,
+        entity,
+        crud,
+        operations: OPERATIONS.filter((operation) => crud[operation])
+          .map((operation) => `'${operation}'`)
+          .join(', '),
+        // e.g. helpers('Effect') -> ['createAddEffect', 'createLoadEffect']
+        helpers: (suffix: string) =>
+          OPERATIONS.filter((operation) => crud[operation])
+            .map((operation) => `create${strings.classify(operation)}${suffix}`)
+            .sort(),
+        namedImport,
+        sharedState: sharedState('state'),
+      }),
+      // The model and service may already exist; keep the hand-written ones
+      filter(
+        (path) =>
+          !/\.(model|service)\.ts$/.test(path) ||
+          !tree.exists(join(root, path)),
+      ),
+      move(root),
+    ]);
+
+    return chain([mergeWith(templates), registerInRoutes(folder, options)]);
+  };
+}
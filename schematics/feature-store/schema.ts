@@ -0,0 +1,7 @@
+export interface FeatureStoreSchema {
+  name: string;
+  entity?: string;
+  crud: string;
+  path: string;
+  skipTests: boolean;
+}
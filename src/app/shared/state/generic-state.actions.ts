@@ -0,0 +1,502 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Action, ActionCreator, createAction, props } from '@ngrx/store';
+
+import {
+  BulkFailure,
+  EntityId,
+  PollingStatus,
+  StateError,
+  StreamStatus,
+  ValidationIssue,
+} from './generic-state.models';
+
+/** ===== Action Types ===== */
+
+export type PropsActionCreator<P> = ActionCreator<
+  string,
+  (props: P) => P & Action<string>
+>;
+
+export type EmptyActionCreator = ActionCreator<string, () => Action<string>>;
+
+// Accepts an optional correlationId and always dispatches one
+export type CorrelatedActionCreator<P> = ActionCreator<
+  string,
+  (props: P & Correlated) => P & { correlationId: string } & Action<string>
+>;
+
+export interface Correlated {
+  correlationId?: string;
+}
+
+export type DeleteId = EntityId | EntityId[];
+
+export interface LoadActionProps<TParams = any> {
+  params?: TParams;
+  forceReload?: boolean;
+}
+
+export interface LoadActionsOptions<TParams = any> {
+  // Derives the cache key recorded for a load; defaults to serializeParams
+  cacheKey?: (params: TParams | undefined) => string | null;
+}
+
+// TParams types the params from load through the service call to loadSuccess
+export interface LoadActionsGroup<T, TParams = any> {
+  load: ActionCreator<
+    string,
+    (
+      props: LoadActionProps<TParams>,
+    ) => LoadActionProps<TParams> & { cacheKey: string | null } & Action<string>
+  >;
+  loadSuccess: PropsActionCreator<{
+    data: T;
+    message?: string;
+    params?: TParams;
+    cacheKey?: string | null;
+    loadedAt?: number;
+  }>;
+  loadFailure: PropsActionCreator<{ error: StateError }>;
+  loadCancelled: EmptyActionCreator;
+  reset: EmptyActionCreator;
+}
+
+export interface AddActionsGroup<TRequest, TResponse = any> {
+  add: CorrelatedActionCreator<{ payload: TRequest }>;
+  addSuccess: PropsActionCreator<
+    { item: TResponse; message?: string } & Correlated
+  >;
+  addFailure: PropsActionCreator<{ error: StateError } & Correlated>;
+  reset: EmptyActionCreator;
+}
+
+export interface UpdateActionsGroup<TRequest, TResponse = any> {
+  update: CorrelatedActionCreator<{ id: EntityId; payload: TRequest }>;
+  // id lets the reducer clear per-entity status; the effect helpers always set it
+  updateSuccess: PropsActionCreator<
+    { item: TResponse; id?: EntityId; message?: string } & Correlated
+  >;
+  updateFailure: PropsActionCreator<
+    { error: StateError; id?: EntityId } & Correlated
+  >;
+  reset: EmptyActionCreator;
+}
+
+export interface DeleteActionsGroup {
+  delete: CorrelatedActionCreator<{ id: DeleteId }>;
+  deleteSuccess: PropsActionCreator<
+    { id: DeleteId; message?: string } & Correlated
+  >;
+  deleteFailure: PropsActionCreator<
+    { error: StateError; id?: DeleteId } & Correlated
+  >;
+  reset: EmptyActionCreator;
+}
+
+// Partial changes for one entity of updateMany
+export interface BulkUpdate<TUpdate> {
+  id: EntityId;
+  changes: Partial<TUpdate>;
+}
+
+// Successes list what went through; `failed` lists the items that did not
+export interface BulkActionsGroup<TAdd, TUpdate = TAdd, TResponse = any> {
+  addMany: CorrelatedActionCreator<{ payloads: TAdd[] }>;
+  addManySuccess: PropsActionCreator<
+    { items: TResponse[]; failed: BulkFailure[]; message?: string } & Correlated
+  >;
+  addManyFailure: PropsActionCreator<{ error: StateError } & Correlated>;
+  updateMany: CorrelatedActionCreator<{ updates: BulkUpdate<TUpdate>[] }>;
+  updateManySuccess: PropsActionCreator<
+    {
+      items: TResponse[];
+      ids: EntityId[];
+      failed: BulkFailure[];
+      message?: string;
+    } & Correlated
+  >;
+  updateManyFailure: PropsActionCreator<
+    { error: StateError; ids: EntityId[] } & Correlated
+  >;
+  deleteMany: CorrelatedActionCreator<{ ids: EntityId[] }>;
+  deleteManySuccess: PropsActionCreator<
+    { ids: EntityId[]; failed: BulkFailure[]; message?: string } & Correlated
+  >;
+  deleteManyFailure: PropsActionCreator<
+    { error: StateError; ids: EntityId[] } & Correlated
+  >;
+  reset: EmptyActionCreator;
+}
+
+export interface HistoryActionsGroup {
+  undo: CorrelatedActionCreator<object>;
+  redo: CorrelatedActionCreator<object>;
+  clearHistory: EmptyActionCreator;
+}
+
+export interface PollingActionsGroup<TParams = any> {
+  startPolling: PropsActionCreator<{ params?: TParams; intervalMs?: number }>;
+  stopPolling: EmptyActionCreator;
+  // Dispatched by createPollingEffect whenever polling starts, pauses, resumes or stops
+  pollingStatusChanged: PropsActionCreator<{
+    status: PollingStatus['status'];
+    intervalMs: number;
+  }>;
+}
+
+export interface QueryParamsActionsGroup<TParams> {
+  // Writes the given load params to the URL; the navigation then triggers the load
+  changeQueryParams: PropsActionCreator<{ params: Partial<TParams> }>;
+}
+
+export interface LoadGraphActionsGroup<TParams = any> {
+  // Runs every step of a load graph; params are passed to the steps' params functions
+  loadAll: PropsActionCreator<{ params?: TParams; forceReload?: boolean }>;
+}
+
+export interface StreamActionsGroup<TEntity> {
+  // url overrides the one configured for createStreamEffect
+  connect: PropsActionCreator<{ url?: string }>;
+  disconnect: EmptyActionCreator;
+  // Entities pushed or deleted by the server
+  upsert: PropsActionCreator<{ items: TEntity[] }>;
+  remove: PropsActionCreator<{ ids: EntityId[] }>;
+  streamStatusChanged: PropsActionCreator<{
+    status: StreamStatus['status'];
+    error: StateError | null;
+    attempt: number;
+  }>;
+}
+
+export type CrudActionsGroup<
+  TData,
+  TAdd = TData,
+  TUpdate = TData,
+  TItem = any,
+  TParams = any,
+> = LoadActionsGroup<TData, TParams> &
+  AddActionsGroup<TAdd, TItem> &
+  UpdateActionsGroup<TUpdate, TItem> &
+  DeleteActionsGroup;
+
+/** ===== Action Creators ===== */
+
+let correlationSequence = 0;
+
+// Correlation ids of the compensating requests sent by createHistoryEffect
+export const HISTORY_CORRELATION_PREFIX = 'history:';
+
+// Correlation id of the compensating request for one change of an undo or redo
+export function historyCorrelationId(
+  correlationId: string,
+  index: number,
+): string {
+  return `${HISTORY_CORRELATION_PREFIX}${correlationId}-${index}`;
+}
+
+export function createCorrelationId(): string {
+  correlationSequence += 1;
+  return `${Date.now().toString(36)}-${correlationSequence.toString(36)}`;
+}
+
+/** Stable JSON for params (sorted object keys); null when there are no params. */
+export function serializeParams(params: unknown): string | null {
+  if (params === undefined || params === null) return null;
+  return JSON.stringify(params, (_key, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.keys(value)
+            .sort()
+            .map((key) => [key, value[key]]),
+        )
+      : value,
+  );
+}
+
+function correlated<P extends object>(props: P & Correlated) {
+  return {
+    ...props,
+    correlationId: props.correlationId ?? createCorrelationId(),
+  };
+}
+
+export function createLoadActions<T, TParams = any>(
+  feature: string,
+  options: LoadActionsOptions<TParams> = {},
+): LoadActionsGroup<T, TParams> {
+  const cacheKey = options.cacheKey ?? serializeParams;
+
+  return {
+    load: createAction(
+      `[${feature}] Load`,
+      (props: LoadActionProps<TParams>) => ({
+        ...props,
+        cacheKey: cacheKey(props.params),
+      }),
+    ),
+    loadSuccess: createAction(
+      `[${feature}] Load Success`,
+      props<{
+        data: T;
+        message?: string;
+        params?: TParams;
+        cacheKey?: string | null;
+        loadedAt?: number;
+      }>(),
+    ),
+    loadFailure: createAction(
+      `[${feature}] Load Failure`,
+      props<{ error: StateError }>(),
+    ),
+    loadCancelled: createAction(`[${feature}] Load Cancelled`),
+    reset: createAction(`[${feature}] Reset`),
+  };
+}
+
+export function createAddActions<TRequest, TResponse = any>(
+  feature: string,
+): AddActionsGroup<TRequest, TResponse> {
+  return {
+    add: createAction(`[${feature}] Add`, correlated<{ payload: TRequest }>),
+    addSuccess: createAction(
+      `[${feature}] Add Success`,
+      props<{ item: TResponse; message?: string } & Correlated>(),
+    ),
+    addFailure: createAction(
+      `[${feature}] Add Failure`,
+      props<{ error: StateError } & Correlated>(),
+    ),
+    reset: createAction(`[${feature}] Reset`),
+  };
+}
+
+export function createUpdateActions<TRequest, TResponse = any>(
+  feature: string,
+): UpdateActionsGroup<TRequest, TResponse> {
+  return {
+    update: createAction(
+      `[${feature}] Update`,
+      correlated<{ id: EntityId; payload: TRequest }>,
+    ),
+    updateSuccess: createAction(
+      `[${feature}] Update Success`,
+      props<
+        { item: TResponse; id?: EntityId; message?: string } & Correlated
+      >(),
+    ),
+    updateFailure: createAction(
+      `[${feature}] Update Failure`,
+      props<{ error: StateError; id?: EntityId } & Correlated>(),
+    ),
+    reset: createAction(`[${feature}] Reset`),
+  };
+}
+
+export function createDeleteActions(feature: string): DeleteActionsGroup {
+  return {
+    delete: createAction(`[${feature}] Delete`, correlated<{ id: DeleteId }>),
+    deleteSuccess: createAction(
+      `[${feature}] Delete Success`,
+      props<{ id: DeleteId; message?: string } & Correlated>(),
+    ),
+    deleteFailure: createAction(
+      `[${feature}] Delete Failure`,
+      props<{ error: StateError; id?: DeleteId } & Correlated>(),
+    ),
+    reset: createAction(`[${feature}] Reset`),
+  };
+}
+
+// Batch variants of add, update and delete
+export function createBulkActions<TAdd, TUpdate = TAdd, TResponse = any>(
+  feature: string,
+): BulkActionsGroup<TAdd, TUpdate, TResponse> {
+  return {
+    addMany: createAction(
+      `[${feature}] Add Many`,
+      correlated<{ payloads: TAdd[] }>,
+    ),
+    addManySuccess: createAction(
+      `[${feature}] Add Many Success`,
+      props<
+        {
+          items: TResponse[];
+          failed: BulkFailure[];
+          message?: string;
+        } & Correlated
+      >(),
+    ),
+    addManyFailure: createAction(
+      `[${feature}] Add Many Failure`,
+      props<{ error: StateError } & Correlated>(),
+    ),
+    updateMany: createAction(
+      `[${feature}] Update Many`,
+      correlated<{ updates: BulkUpdate<TUpdate>[] }>,
+    ),
+    updateManySuccess: createAction(
+      `[${feature}] Update Many Success`,
+      props<
+        {
+          items: TResponse[];
+          ids: EntityId[];
+          failed: BulkFailure[];
+          message?: string;
+        } & Correlated
+      >(),
+    ),
+    updateManyFailure: createAction(
+      `[${feature}] Update Many Failure`,
+      props<{ error: StateError; ids: EntityId[] } & Correlated>(),
+    ),
+    deleteMany: createAction(
+      `[${feature}] Delete Many`,
+      correlated<{ ids: EntityId[] }>,
+    ),
+    deleteManySuccess: createAction(
+      `[${feature}] Delete Many Success`,
+      props<
+        {
+          ids: EntityId[];
+          failed: BulkFailure[];
+          message?: string;
+        } & Correlated
+      >(),
+    ),
+    deleteManyFailure: createAction(
+      `[${feature}] Delete Many Failure`,
+      props<{ error: StateError; ids: EntityId[] } & Correlated>(),
+    ),
+    reset: createAction(`[${feature}] Reset`),
+  };
+}
+
+// Undo/redo for slices wrapped in createHistoryMetaReducer
+export function createHistoryActions(feature: string): HistoryActionsGroup {
+  return {
+    undo: createAction(`[${feature}] Undo`, correlated<object>),
+    redo: createAction(`[${feature}] Redo`, correlated<object>),
+    clearHistory: createAction(`[${feature}] Clear History`),
+  };
+}
+
+// Periodic reloads for slices refreshed by createPollingEffect
+export function createPollingActions<TParams = any>(
+  feature: string,
+): PollingActionsGroup<TParams> {
+  return {
+    startPolling: createAction(
+      `[${feature}] Start Polling`,
+      props<{ params?: TParams; intervalMs?: number }>(),
+    ),
+    stopPolling: createAction(`[${feature}] Stop Polling`),
+    pollingStatusChanged: createAction(
+      `[${feature}] Polling Status Changed`,
+      props<{ status: PollingStatus['status']; intervalMs: number }>(),
+    ),
+  };
+}
+
+// Load params kept in the URL by createRouterLoadEffect
+export function createQueryParamsActions<TParams>(
+  feature: string,
+): QueryParamsActionsGroup<TParams> {
+  return {
+    changeQueryParams: createAction(
+      `[${feature}] Change Query Params`,
+      props<{ params: Partial<TParams> }>(),
+    ),
+  };
+}
+
+// Page-level loads run by createLoadGraphEffect
+export function createLoadGraphActions<TParams = any>(
+  feature: string,
+): LoadGraphActionsGroup<TParams> {
+  return {
+    loadAll: createAction(
+      `[${feature}] Load All`,
+      props<{ params?: TParams; forceReload?: boolean }>(),
+    ),
+  };
+}
+
+// Live entity feeds kept by createStreamEffect
+export function createStreamActions<TEntity>(
+  feature: string,
+): StreamActionsGroup<TEntity> {
+  return {
+    connect: createAction(
+      `[${feature}] Connect Stream`,
+      props<{ url?: string }>(),
+    ),
+    disconnect: createAction(`[${feature}] Disconnect Stream`),
+    upsert: createAction(
+      `[${feature}] Stream Upsert`,
+      props<{ items: TEntity[] }>(),
+    ),
+    remove: createAction(
+      `[${feature}] Stream Remove`,
+      props<{ ids: EntityId[] }>(),
+    ),
+    streamStatusChanged: createAction(
+      `[${feature}] Stream Status Changed`,
+      props<{
+        status: StreamStatus['status'];
+        error: StateError | null;
+        attempt: number;
+      }>(),
+    ),
+  };
+}
+
+// Dispatched by the exhaust concurrency strategy for every action it discards;
+// inFlight is the action whose request was still running
+export const actionDropped = createAction(
+  '[Generic State] Action Dropped',
+  props<{ action: Action & Correlated; inFlight?: Action }>(),
+);
+
+// Dispatched by the effects before each retry of a failed request
+export const operationRetrying = createAction(
+  '[Generic State] Operation Retrying',
+  props<{
+    action: Action & Correlated;
+    attempt: number;
+    maxAttempts: number;
+  }>(),
+);
+
+// Dispatched on startup with the state read from storage (null when nothing was saved)
+export const hydrate = createAction(
+  '[Generic State] Hydrate',
+  props<{ key: string; state: Record<string, unknown> | null }>(),
+);
+
+// Dispatched by the load effects, before loadFailure, when a response fails its schema
+export const responseValidationFailed = createAction(
+  '[Generic State] Response Validation Failed',
+  props<{ action: Action; issues: ValidationIssue[] }>(),
+);
+
+// Dispatched with the feature state another tab sent over a snapshot-mode channel
+export const tabStateSynced = createAction(
+  '[Generic State] Tab State Synced',
+  props<{ channel: string; state: Record<string, unknown> }>(),
+);
+
+// Combined actions creator for full CRUD
+export function createCrudActions<
+  TData,
+  TAdd = TData,
+  TUpdate = TData,
+  TItem = any,
+  TParams = any,
+>(feature: string): CrudActionsGroup<TData, TAdd, TUpdate, TItem, TParams> {
+  return {
+    ...createLoadActions<TData, TParams>(feature),
+    ...createAddActions<TAdd, TItem>(feature),
+    ...createUpdateActions<TUpdate, TItem>(feature),
+    ...createDeleteActions(feature),
+  };
+}
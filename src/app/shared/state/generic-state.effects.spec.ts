@@ -0,0 +1,809 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { TestBed } from '@angular/core/testing';
+import { Actions } from '@ngrx/effects';
+import { Action } from '@ngrx/store';
+import { MockStore, provideMockStore } from '@ngrx/store/testing';
+import { BehaviorSubject, map, merge, of, Subject, throwError } from 'rxjs';
+
+import {
+  actionDropped,
+  createAddActions,
+  createBulkActions,
+  createCrudActions,
+  createDeleteActions,
+  createHistoryActions,
+  createLoadActions,
+  createPollingActions,
+  createUpdateActions,
+  HISTORY_CORRELATION_PREFIX,
+  operationRetrying,
+  responseValidationFailed,
+  serializeParams,
+} from './generic-state.actions';
+import {
+  createAddEffect,
+  createAddManyEffect,
+  createDeleteEffect,
+  createDeleteManyEffect,
+  createHistoryEffect,
+  createLoadEffect,
+  createPollingEffect,
+  createUpdateEffect,
+  createUpdateManyEffect,
+  retryDelay,
+} from './generic-state.effects';
+import {
+  createDefaultState,
+  createEntityCollectionState,
+  createHistoryState,
+  createStateError,
+  DefaultState,
+  EntityCollectionState,
+  HistoryState,
+} from './generic-state.models';
+import {
+  createGenericReducer,
+  createHistoryMetaReducer,
+} from './generic-state.reducer';
+import { validators } from './generic-state.validation';
+
+interface TestState {
+  users: DefaultState<string[]>;
+}
+
+function failure(type: string, message: string) {
+  return jasmine.objectContaining({
+    type,
+    error: jasmine.objectContaining({ message }),
+  });
+}
+
+describe('generic effects', () => {
+  const UserActions = createLoadActions<string[]>('User');
+  const CommentActions = createAddActions<string, string>('Comment');
+  const StatusActions = createUpdateActions<string, string>('Status');
+
+  let source: Subject<Action>;
+  let actions$: Actions;
+  let emitted: Action[];
+
+  beforeEach(() => {
+    source = new Subject<Action>();
+    actions$ = new Actions(source);
+    emitted = [];
+  });
+
+  describe('createLoadEffect', () => {
+    const now = Date.UTC(2024, 0, 1);
+
+    beforeEach(() => {
+      jasmine.clock().install();
+      jasmine.clock().mockDate(new Date(now));
+    });
+
+    afterEach(() => jasmine.clock().uninstall());
+
+    it('should dispatch loadSuccess with the configured message', () => {
+      createLoadEffect(actions$, UserActions, () => of(['ada']), {
+        successMessage: (data) => `Loaded ${data.length} users`,
+      }).subscribe((action) => emitted.push(action));
+
+      source.next(UserActions.load({}));
+
+      expect(emitted).toEqual([
+        UserActions.loadSuccess({
+          data: ['ada'],
+          message: 'Loaded 1 users',
+          params: undefined,
+          cacheKey: null,
+          loadedAt: now,
+        }),
+      ]);
+    });
+
+    it('should dispatch loadFailure with the error message', () => {
+      createLoadEffect(actions$, UserActions, () =>
+        throwError(() => new Error('Timeout')),
+      ).subscribe((action) => emitted.push(action));
+
+      const load = UserActions.load({});
+      source.next(load);
+
+      expect(emitted).toEqual([
+        UserActions.loadFailure({
+          error: createStateError('Timeout', { action: load }),
+        }),
+      ]);
+    });
+
+    it('should cancel the load when data is cached unless forceReload is set', () => {
+      TestBed.configureTestingModule({
+        providers: [
+          provideMockStore<TestState>({
+            initialState: { users: createDefaultState(['ada']) },
+          }),
+        ],
+      });
+      const store = TestBed.inject(MockStore<TestState>);
+      const loadService = jasmine
+        .createSpy('loadService')
+        .and.returnValue(of(['grace']));
+
+      createLoadEffect(actions$, UserActions, loadService, {
+        store,
+        selector: (state: TestState) => state.users,
+      }).subscribe((action) => emitted.push(action));
+
+      source.next(UserActions.load({}));
+      source.next(UserActions.load({ forceReload: true }));
+
+      expect(loadService).toHaveBeenCalledTimes(1);
+      expect(emitted).toEqual([
+        UserActions.loadCancelled(),
+        UserActions.loadSuccess({
+          data: ['grace'],
+          message: undefined,
+          params: undefined,
+          cacheKey: null,
+          loadedAt: now,
+        }),
+      ]);
+    });
+
+    it('should validate responses before loadSuccess', () => {
+      const loadService = jasmine
+        .createSpy('loadService')
+        .and.returnValues(of(['ada', 42, null]), of(['ada', 42]));
+      createLoadEffect(actions$, UserActions, loadService, {
+        validate: {
+          schema: validators.array(validators.string()),
+          coerce: true,
+        },
+      }).subscribe((action) => emitted.push(action));
+
+      const load = UserActions.load({});
+      source.next(load);
+
+      expect(emitted).toEqual([
+        responseValidationFailed({
+          action: load,
+          issues: [{ path: [2], message: 'Expected string, received null' }],
+        }),
+        UserActions.loadFailure({
+          error: createStateError('Invalid response', {
+            code: 'INVALID_RESPONSE',
+            fieldErrors: { '2': ['Expected string, received null'] },
+            action: load,
+          }),
+        }),
+      ]);
+
+      source.next(UserActions.load({}));
+      expect(emitted[2]).toEqual(
+        jasmine.objectContaining({ data: ['ada', '42'] }),
+      );
+    });
+
+    it('should share the request in flight with identical loads', () => {
+      const requests: Subject<string[]>[] = [];
+      const loadService = jasmine.createSpy('loadService').and.callFake(() => {
+        requests.push(new Subject<string[]>());
+        return requests[requests.length - 1];
+      });
+      createLoadEffect(actions$, UserActions, loadService).subscribe((action) =>
+        emitted.push(action),
+      );
+      const core = { team: 'core' };
+
+      source.next(UserActions.load({ params: core }));
+      source.next(UserActions.load({ params: { ...core } }));
+      requests[0].next(['ada']);
+      requests[0].complete();
+      source.next(UserActions.load({ params: core }));
+      source.next(UserActions.load({ params: core, forceReload: true }));
+      source.next(UserActions.load({ params: { team: 'web' } }));
+
+      expect(loadService.calls.allArgs()).toEqual([
+        [core],
+        [core],
+        [core],
+        [{ team: 'web' }],
+      ]);
+      expect(emitted).toEqual([
+        UserActions.loadSuccess({
+          data: ['ada'],
+          message: undefined,
+          params: core,
+          cacheKey: serializeParams(core),
+          loadedAt: now,
+        }),
+      ]);
+    });
+
+    it('should type params from the action group through to loadSuccess', () => {
+      const ScanActions = createLoadActions<
+        string[],
+        { page: number; severity?: string }
+      >('Scan');
+      const loadScans = (params?: { page: number }) =>
+        of([`page ${params?.page}`]);
+
+      createLoadEffect(actions$, ScanActions, loadScans).subscribe((action) =>
+        emitted.push(action),
+      );
+      // @ts-expect-error the service takes a page, not a search term
+      createLoadEffect(actions$, ScanActions, (params?: { search: string }) =>
+        of([params?.search ?? '']),
+      );
+      // @ts-expect-error the service does not return the loaded data type
+      createLoadEffect(actions$, ScanActions, () => of([1]));
+      // @ts-expect-error page has to be a number
+      ScanActions.load({ params: { page: '2' } });
+
+      source.next(ScanActions.load({ params: { page: 2 } }));
+
+      const success = emitted[0] as ReturnType<typeof ScanActions.loadSuccess>;
+      const page: number | undefined = success.params?.page;
+      expect(page).toBe(2);
+      expect(success.data).toEqual(['page 2']);
+    });
+  });
+
+  describe('createLoadEffect caching', () => {
+    const loadedAt = Date.UTC(2024, 0, 1);
+    let loadService: jasmine.Spy;
+
+    function startWith(users: DefaultState<string[]>, ttl?: number) {
+      TestBed.configureTestingModule({
+        providers: [provideMockStore<TestState>({ initialState: { users } })],
+      });
+      loadService = jasmine.createSpy('loadService').and.returnValue(of([]));
+      createLoadEffect(actions$, UserActions, loadService, {
+        store: TestBed.inject(MockStore<TestState>),
+        selector: (state: TestState) => state.users,
+        ttl,
+      }).subscribe((action) => emitted.push(action));
+    }
+
+    beforeEach(() => jasmine.clock().install());
+
+    afterEach(() => jasmine.clock().uninstall());
+
+    it('should reuse data only while it is younger than the ttl', () => {
+      startWith(
+        { ...createDefaultState(['ada']), lastLoadedAt: loadedAt },
+        60_000,
+      );
+
+      jasmine.clock().mockDate(new Date(loadedAt + 59_000));
+      source.next(UserActions.load({}));
+      expect(loadService).not.toHaveBeenCalled();
+
+      jasmine.clock().mockDate(new Date(loadedAt + 61_000));
+      source.next(UserActions.load({}));
+      expect(loadService).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not reuse data loaded for different params', () => {
+      startWith({
+        ...createDefaultState(['ada']),
+        lastLoadedAt: loadedAt,
+        cacheKey: serializeParams({ page: 1 }),
+      });
+
+      source.next(UserActions.load({ params: { page: 1 } }));
+      source.next(UserActions.load({ params: { page: 2 } }));
+
+      expect(loadService).toHaveBeenCalledOnceWith({ page: 2 });
+    });
+  });
+
+  describe('createAddEffect', () => {
+    it('should use the configured error message', () => {
+      createAddEffect(
+        actions$,
+        CommentActions,
+        () => throwError(() => new Error('Boom')),
+        { errorMessage: 'Could not add comment' },
+      ).subscribe((action) => emitted.push(action));
+
+      source.next(CommentActions.add({ payload: 'hello' }));
+
+      expect(emitted).toEqual([
+        failure(CommentActions.addFailure.type, 'Could not add comment'),
+      ]);
+    });
+
+    it('should keep the status, code and field errors of HTTP failures', () => {
+      createAddEffect(actions$, CommentActions, () =>
+        throwError(
+          () =>
+            new HttpErrorResponse({
+              status: 422,
+              error: {
+                code: 'INVALID_COMMENT',
+                message: 'Comment is invalid',
+                errors: { body: 'Too short', author: ['Required'] },
+              },
+            }),
+        ),
+      ).subscribe((action) => emitted.push(action));
+
+      const add = CommentActions.add({ payload: 'hi' });
+      source.next(add);
+
+      const { error } = emitted[0] as ReturnType<
+        typeof CommentActions.addFailure
+      >;
+      expect(error).toEqual(
+        jasmine.objectContaining({
+          message: 'Comment is invalid',
+          code: 'INVALID_COMMENT',
+          status: 422,
+          fieldErrors: { body: ['Too short'], author: ['Required'] },
+          retryable: false,
+          action: add,
+        }),
+      );
+    });
+  });
+
+  describe('createUpdateEffect concurrency', () => {
+    let responses: Record<string, Subject<string>>;
+    const updateService = (id: number | string, payload: string) => {
+      responses[`${id}:${payload}`] = new Subject<string>();
+      return responses[`${id}:${payload}`];
+    };
+
+    beforeEach(() => (responses = {}));
+
+    it('should run different ids in parallel and the same id in order by default', () => {
+      createUpdateEffect(actions$, StatusActions, updateService).subscribe(
+        (action) => emitted.push(action),
+      );
+
+      source.next(StatusActions.update({ id: 'A', payload: 'fixed' }));
+      source.next(StatusActions.update({ id: 'B', payload: 'muted' }));
+      source.next(StatusActions.update({ id: 'A', payload: 'reopened' }));
+
+      expect(Object.keys(responses)).toEqual(['A:fixed', 'B:muted']);
+
+      responses['A:fixed'].next('A fixed');
+      responses['A:fixed'].complete();
+
+      expect(Object.keys(responses)).toContain('A:reopened');
+      expect(emitted.length).toBe(1);
+    });
+
+    it('should start over for an id whose earlier updates have settled', () => {
+      createUpdateEffect(actions$, StatusActions, updateService).subscribe(
+        (action) => emitted.push(action),
+      );
+
+      source.next(StatusActions.update({ id: 'A', payload: 'fixed' }));
+      responses['A:fixed'].next('A fixed');
+      responses['A:fixed'].complete();
+      source.next(StatusActions.update({ id: 'A', payload: 'reopened' }));
+      source.next(StatusActions.update({ id: 'A', payload: 'muted' }));
+
+      expect(Object.keys(responses)).toEqual(['A:fixed', 'A:reopened']);
+      responses['A:reopened'].complete();
+      expect(Object.keys(responses)).toContain('A:muted');
+    });
+
+    it('should report actions discarded by the exhaust strategy', () => {
+      createUpdateEffect(actions$, StatusActions, updateService, {
+        concurrency: 'exhaust',
+      }).subscribe((action) => emitted.push(action));
+
+      const first = StatusActions.update({ id: 'A', payload: 'fixed' });
+      const second = StatusActions.update({ id: 'B', payload: 'muted' });
+      source.next(first);
+      source.next(second);
+
+      expect(Object.keys(responses)).toEqual(['A:fixed']);
+      expect(emitted).toEqual([
+        actionDropped({ action: second, inFlight: first }),
+      ]);
+    });
+  });
+
+  describe('retry policy', () => {
+    const retry = { maxAttempts: 3, backoffMs: 100, jitter: 0 };
+    const unavailable = { status: 503, message: 'Service Unavailable' };
+
+    beforeEach(() => jasmine.clock().install());
+
+    afterEach(() => jasmine.clock().uninstall());
+
+    it('should back off exponentially up to the configured cap', () => {
+      const policy = { ...retry, maxBackoffMs: 300 };
+      expect([1, 2, 3].map((n) => retryDelay(policy, n))).toEqual([
+        100, 200, 300,
+      ]);
+    });
+
+    it('should retry retryable statuses and announce each attempt', () => {
+      const loadService = jasmine.createSpy('loadService').and.returnValues(
+        throwError(() => unavailable),
+        throwError(() => unavailable),
+        of(['ada']),
+      );
+      createLoadEffect(actions$, UserActions, loadService, {
+        retry,
+      }).subscribe((action) => emitted.push(action));
+
+      const load = UserActions.load({});
+      source.next(load);
+      expect(emitted).toEqual([
+        operationRetrying({ action: load, attempt: 2, maxAttempts: 3 }),
+      ]);
+
+      jasmine.clock().tick(100);
+      expect(emitted[1]).toEqual(
+        operationRetrying({ action: load, attempt: 3, maxAttempts: 3 }),
+      );
+
+      jasmine.clock().tick(200);
+      expect(loadService).toHaveBeenCalledTimes(3);
+      expect(emitted[2].type).toBe(UserActions.loadSuccess.type);
+    });
+
+    it('should fail immediately on statuses that are not retryable', () => {
+      createLoadEffect(
+        actions$,
+        UserActions,
+        () => throwError(() => ({ status: 404, message: 'Not Found' })),
+        { retry },
+      ).subscribe((action) => emitted.push(action));
+
+      source.next(UserActions.load({}));
+
+      expect(emitted).toEqual([
+        failure(UserActions.loadFailure.type, 'Not Found'),
+      ]);
+    });
+
+    it('should only retry idempotent mutations unless told otherwise', () => {
+      const addService = jasmine
+        .createSpy('addService')
+        .and.returnValue(throwError(() => unavailable));
+      createAddEffect(actions$, CommentActions, addService, {
+        retry,
+      }).subscribe((action) => emitted.push(action));
+      createUpdateEffect(
+        actions$,
+        StatusActions,
+        () => throwError(() => unavailable),
+        { retry },
+      ).subscribe((action) => emitted.push(action));
+
+      source.next(CommentActions.add({ payload: 'hello' }));
+      const update = StatusActions.update({ id: 'A', payload: 'fixed' });
+      source.next(update);
+
+      expect(addService).toHaveBeenCalledTimes(1);
+      expect(emitted).toEqual([
+        failure(CommentActions.addFailure.type, 'Service Unavailable'),
+        operationRetrying({ action: update, attempt: 2, maxAttempts: 3 }),
+      ]);
+    });
+  });
+
+  describe('bulk effects', () => {
+    const TargetActions = createBulkActions<string, string, string>('Target');
+
+    it('should fan out with a concurrency limit and report failed items', () => {
+      const requests: Subject<string>[] = [];
+      const single = jasmine.createSpy('single').and.callFake(() => {
+        requests.push(new Subject<string>());
+        return requests[requests.length - 1];
+      });
+      createAddManyEffect(
+        actions$,
+        TargetActions,
+        { single },
+        { maxConcurrent: 2 },
+      ).subscribe((action) => emitted.push(action));
+
+      const addMany = TargetActions.addMany({ payloads: ['a', 'b', 'c'] });
+      source.next(addMany);
+      expect(single).toHaveBeenCalledTimes(2);
+
+      requests[1].error({ status: 409, error: { message: 'Duplicate' } });
+      expect(single).toHaveBeenCalledTimes(3);
+      requests[2].next('C');
+      requests[2].complete();
+      requests[0].next('A');
+      requests[0].complete();
+
+      expect(emitted).toEqual([
+        jasmine.objectContaining({
+          type: TargetActions.addManySuccess.type,
+          items: ['A', 'C'],
+          failed: [
+            {
+              index: 1,
+              id: null,
+              error: jasmine.objectContaining({
+                message: 'Duplicate',
+                status: 409,
+                action: addMany,
+              }),
+            },
+          ],
+          correlationId: addMany.correlationId,
+        }),
+      ]);
+    });
+
+    it('should map a partial bulk response back to the requested ids', () => {
+      createUpdateManyEffect(actions$, TargetActions, {
+        bulk: () =>
+          of({
+            succeeded: ['second'],
+            failed: [{ index: 0, error: { status: 404 } }],
+          }),
+      }).subscribe((action) => emitted.push(action));
+
+      source.next(
+        TargetActions.updateMany({
+          updates: [
+            { id: 7, changes: 'first' },
+            { id: 8, changes: 'second' },
+          ],
+        }),
+      );
+
+      expect(emitted[0]).toEqual(
+        jasmine.objectContaining({
+          items: ['second'],
+          ids: [8],
+          failed: [jasmine.objectContaining({ index: 0, id: 7 })],
+        }),
+      );
+    });
+
+    it('should fail every id when the bulk endpoint fails', () => {
+      const bulk = jasmine.createSpy('bulk').and.returnValues(
+        of(undefined),
+        throwError(() => ({ status: 500 })),
+      );
+      createDeleteManyEffect(actions$, TargetActions, { bulk }).subscribe(
+        (action) => emitted.push(action),
+      );
+
+      source.next(TargetActions.deleteMany({ ids: [1, 2] }));
+      source.next(TargetActions.deleteMany({ ids: [3] }));
+
+      expect(emitted).toEqual([
+        jasmine.objectContaining({
+          type: TargetActions.deleteManySuccess.type,
+          ids: [1, 2],
+          failed: [],
+        }),
+        jasmine.objectContaining({
+          type: TargetActions.deleteManyFailure.type,
+          ids: [3],
+          error: jasmine.objectContaining({ message: 'Delete failed' }),
+        }),
+      ]);
+    });
+  });
+
+  describe('createPollingEffect', () => {
+    const MetricActions = {
+      ...createLoadActions<string[]>('Metric'),
+      ...createPollingActions('Metric'),
+    };
+    const changed = (status: 'active' | 'paused' | 'stopped') =>
+      MetricActions.pollingStatusChanged({ status, intervalMs: 1_000 });
+    let active$: BehaviorSubject<boolean>;
+
+    beforeEach(() => {
+      jasmine.clock().install();
+      jasmine.clock().mockDate(new Date(0));
+      active$ = new BehaviorSubject(true);
+    });
+
+    afterEach(() => jasmine.clock().uninstall());
+
+    it('should reload every interval until stopPolling', () => {
+      const loadService = jasmine
+        .createSpy('loadService')
+        .and.returnValue(of(['cpu']));
+      createPollingEffect(actions$, MetricActions, loadService, {
+        active$,
+      }).subscribe((action) => emitted.push(action));
+
+      source.next(
+        MetricActions.startPolling({
+          params: { host: 'a' },
+          intervalMs: 1_000,
+        }),
+      );
+      expect(emitted).toEqual([
+        changed('active'),
+        MetricActions.loadSuccess({
+          data: ['cpu'],
+          message: undefined,
+          params: { host: 'a' },
+          cacheKey: serializeParams({ host: 'a' }),
+          loadedAt: 0,
+        }),
+      ]);
+
+      jasmine.clock().tick(1_000);
+      expect(loadService).toHaveBeenCalledTimes(2);
+
+      source.next(MetricActions.stopPolling());
+      jasmine.clock().tick(5_000);
+      expect(loadService).toHaveBeenCalledTimes(2);
+      expect(emitted[emitted.length - 1]).toEqual(changed('stopped'));
+    });
+
+    it('should pause while inactive and poll again as soon as it resumes', () => {
+      const loadService = jasmine
+        .createSpy('loadService')
+        .and.returnValue(of(['cpu']));
+      createPollingEffect(actions$, MetricActions, loadService, {
+        active$,
+        intervalMs: 1_000,
+      }).subscribe((action) => emitted.push(action));
+
+      source.next(MetricActions.startPolling({}));
+      active$.next(false);
+      jasmine.clock().tick(5_000);
+      expect(loadService).toHaveBeenCalledTimes(1);
+      expect(emitted[emitted.length - 1]).toEqual(changed('paused'));
+
+      active$.next(true);
+      expect(loadService).toHaveBeenCalledTimes(2);
+      expect(emitted).toContain(changed('active'));
+    });
+
+    it('should double the delay after each failed poll', () => {
+      const loadService = jasmine.createSpy('loadService').and.returnValues(
+        throwError(() => ({ status: 503 })),
+        throwError(() => ({ status: 503 })),
+        of(['cpu']),
+        of(['cpu']),
+      );
+      createPollingEffect(actions$, MetricActions, loadService, {
+        active$,
+        intervalMs: 1_000,
+      }).subscribe((action) => emitted.push(action));
+
+      source.next(MetricActions.startPolling({}));
+      jasmine.clock().tick(1_999);
+      expect(loadService).toHaveBeenCalledTimes(1);
+      jasmine.clock().tick(1);
+      expect(loadService).toHaveBeenCalledTimes(2);
+      jasmine.clock().tick(4_000);
+      expect(loadService).toHaveBeenCalledTimes(3);
+      jasmine.clock().tick(1_000);
+      expect(loadService).toHaveBeenCalledTimes(4);
+      expect(emitted[1]).toEqual(
+        failure(MetricActions.loadFailure.type, 'Load failed'),
+      );
+    });
+  });
+
+  describe('createHistoryEffect', () => {
+    const HistoryActions = createHistoryActions('Status');
+    const DeleteActions = createDeleteActions('Status');
+    let history$: BehaviorSubject<HistoryState>;
+
+    beforeEach(() => {
+      history$ = new BehaviorSubject(createHistoryState());
+      createHistoryEffect(actions$, HistoryActions, history$, {
+        actions: { ...StatusActions, ...DeleteActions },
+      }).subscribe((action) => emitted.push(action));
+    });
+
+    it('should send the restored entities back through update and delete', () => {
+      const undo = HistoryActions.undo({});
+      history$.next({
+        ...createHistoryState(),
+        lastRestore: {
+          correlationId: undo.correlationId,
+          changes: [
+            { id: 'A', before: 'fixed', after: 'open' },
+            { id: 'B', before: 'new', after: null },
+          ],
+        },
+      });
+
+      source.next(undo);
+
+      const prefix = `${HISTORY_CORRELATION_PREFIX}${undo.correlationId}`;
+      expect(emitted).toEqual([
+        StatusActions.update({
+          id: 'A',
+          payload: 'open',
+          correlationId: `${prefix}-0`,
+        }),
+        DeleteActions.delete({ id: 'B', correlationId: `${prefix}-1` }),
+      ]);
+    });
+
+    it('should do nothing when there was nothing to undo', () => {
+      source.next(HistoryActions.undo({}));
+
+      expect(emitted).toEqual([]);
+    });
+
+    it('should replace an entity brought back by undo with the one the server adds', () => {
+      interface Finding {
+        id: number;
+        name: string;
+      }
+      interface TriageState {
+        findings: EntityCollectionState<Finding>;
+        history: HistoryState;
+      }
+      const FindingActions = createCrudActions<Finding[], Finding, Finding>(
+        'Finding',
+      );
+      const reducer = createHistoryMetaReducer<TriageState>({
+        actions: HistoryActions,
+        stateKey: 'findings',
+        historyKey: 'history',
+        recordOn: [FindingActions.addSuccess, FindingActions.deleteSuccess],
+      })(
+        createGenericReducer<TriageState, Finding[]>({
+          actions: FindingActions,
+          initialState: {
+            findings: createEntityCollectionState<Finding>(),
+            history: createHistoryState(),
+          },
+          stateKey: 'findings',
+          entity: {},
+        }),
+      );
+      const deleted: number[] = [];
+      // Reduces and re-emits what the effects dispatch, as the store would
+      const state$ = new BehaviorSubject(reducer(undefined, { type: 'init' }));
+      const dispatch = (action: Action) => {
+        state$.next(reducer(state$.value, action));
+        source.next(action);
+      };
+      merge(
+        createAddEffect(actions$, FindingActions, (finding) =>
+          of({ ...finding, id: 3 }),
+        ),
+        createDeleteEffect<number>(actions$, FindingActions, (id) => {
+          deleted.push(id);
+          return of(null);
+        }),
+        createHistoryEffect(
+          actions$,
+          HistoryActions,
+          state$.pipe(map(({ history }) => history)),
+          { actions: FindingActions },
+        ),
+      ).subscribe(dispatch);
+
+      dispatch(
+        FindingActions.loadSuccess({
+          data: [
+            { id: 1, name: 'XSS' },
+            { id: 2, name: 'SQLi' },
+          ],
+        }),
+      );
+      dispatch(FindingActions.delete({ id: 2 }));
+      dispatch(HistoryActions.undo({}));
+
+      expect(state$.value.findings.ids).toEqual([1, 3]);
+      expect(state$.value.findings.entities[3]?.name).toBe('SQLi');
+      expect(state$.value.history.past).toEqual([]);
+      expect(state$.value.history.recreated).toEqual({});
+
+      dispatch(HistoryActions.redo({}));
+
+      expect(deleted).toEqual([2, 3]);
+      expect(state$.value.findings.ids).toEqual([1]);
+    });
+  });
+});
@@ -0,0 +1,1003 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Actions, ofType } from '@ngrx/effects';
+import { Action, Store } from '@ngrx/store';
+import {
+  catchError,
+  concat,
+  concatMap,
+  defer,
+  distinctUntilChanged,
+  EMPTY,
+  endWith,
+  filter,
+  finalize,
+  from,
+  fromEvent,
+  groupBy,
+  map,
+  merge,
+  mergeMap,
+  Observable,
+  of,
+  OperatorFunction,
+  startWith,
+  Subject,
+  switchMap,
+  takeUntil,
+  throwError,
+  timer,
+  toArray,
+  withLatestFrom,
+} from 'rxjs';
+
+import {
+  actionDropped,
+  AddActionsGroup,
+  BulkActionsGroup,
+  BulkUpdate,
+  DeleteActionsGroup,
+  DeleteId,
+  historyCorrelationId,
+  HistoryActionsGroup,
+  LoadActionsGroup,
+  operationRetrying,
+  PollingActionsGroup,
+  responseValidationFailed,
+  serializeParams,
+  UpdateActionsGroup,
+} from './generic-state.actions';
+import {
+  BulkFailure,
+  createStateError,
+  EntityId,
+  HistoryChange,
+  HistoryState,
+  isSliceLoaded,
+  PollingStatus,
+  SliceState,
+  StateError,
+  ValidationIssue,
+} from './generic-state.models';
+import {
+  formatIssuePath,
+  INVALID_RESPONSE_CODE,
+  ResponseValidation,
+} from './generic-state.validation';
+
+/** ===== Effect Config Types ===== */
+
+export interface RetryPolicy {
+  // Total attempts, including the first request
+  maxAttempts: number;
+  // Delay before the first retry in milliseconds; doubles for every further retry
+  backoffMs?: number;
+  maxBackoffMs?: number;
+  // Share of each delay (0-1) that is randomised so clients do not retry in lockstep
+  jitter?: number;
+  // Errors whose `status` is not listed fail immediately
+  retryableStatuses?: number[];
+  // Mutations only: retry just the requests that are safe to repeat (defaults to true)
+  idempotentOnly?: boolean;
+}
+
+export interface EffectConfig<TResult = any> {
+  successMessage?: string | ((result: TResult) => string);
+  errorMessage?: string | ((error: any) => string);
+  retry?: RetryPolicy;
+}
+
+export interface LoadEffectConfig<
+  TResponse = any,
+  TState = any,
+> extends EffectConfig<TResponse> {
+  // When both are provided, load is skipped while the slice holds fresh data for the same cacheKey
+  store?: Store<TState>;
+  selector?: (state: TState) => SliceState<TResponse>;
+  // Current slice for state that does not live in the global Store (e.g. a SignalStore)
+  state$?: Observable<SliceState<TResponse>>;
+  // Milliseconds loaded data stays fresh; cached data never expires when omitted
+  ttl?: number;
+  // Checks every response before loadSuccess; invalid ones dispatch
+  // responseValidationFailed and loadFailure instead
+  validate?: ResponseValidation<TResponse>;
+}
+
+export interface PollingEffectConfig<
+  TResponse = any,
+> extends EffectConfig<TResponse> {
+  // Used when startPolling does not pass an interval; defaults to 30 seconds
+  intervalMs?: number;
+  // Cap of the delay while polls keep failing; defaults to 5 minutes (never below the interval)
+  maxBackoffMs?: number;
+  // Whether polls may run; defaults to browserActivity$()
+  active$?: Observable<boolean>;
+  // As in LoadEffectConfig; invalid responses count as failed polls
+  validate?: ResponseValidation<TResponse>;
+}
+
+// NoInfer: the action group alone fixes the types the service has to match
+export type LoadService<TResponse, TParams = any> = (
+  params?: NoInfer<TParams>,
+) => Observable<NoInfer<TResponse>>;
+
+export type ConcurrencyStrategy =
+  'switch' | 'merge' | 'concat' | 'exhaust' | 'keyed';
+
+export interface MutationEffectConfig<
+  TResult = any,
+  TAction = any,
+> extends EffectConfig<TResult> {
+  // exhaust reports every discarded action through actionDropped
+  concurrency?: ConcurrencyStrategy;
+  // keyed strategy only: actions sharing a key run one at a time
+  concurrencyKey?: (action: TAction) => EntityId;
+  // Whether repeating the request is safe; defaults to false for add, true for update and delete
+  idempotent?: boolean;
+}
+
+export type AddEffectConfig<
+  TResponse = any,
+  TRequest = any,
+> = MutationEffectConfig<TResponse, { payload: TRequest }>;
+
+export type UpdateEffectConfig<
+  TResponse = any,
+  TRequest = any,
+> = MutationEffectConfig<TResponse, { id: EntityId; payload: TRequest }>;
+
+export type DeleteEffectConfig = MutationEffectConfig<
+  DeleteId,
+  { id: DeleteId }
+>;
+
+// What a bulk endpoint accepted and rejected; any other response means every item went through
+export interface BulkOutcome<TResult> {
+  succeeded: TResult[];
+  // Position of each rejected item in the request
+  failed: { index: number; error: unknown }[];
+}
+
+/** Either one request for the whole batch or one request per item. */
+export type BulkService<TItem, TResult> =
+  | { bulk: (items: TItem[]) => Observable<TResult[] | BulkOutcome<TResult>> }
+  | { single: (item: TItem) => Observable<TResult> };
+
+// Bulk effects do not retry; the items that failed are reported in `failed` instead
+export interface BulkEffectConfig<TResult = any> extends Omit<
+  EffectConfig<TResult[]>,
+  'retry'
+> {
+  // Requests in flight at once when fanning out to the single-item service; defaults to 4
+  maxConcurrent?: number;
+}
+
+export interface HistoryEffectConfig<TEntity = any> {
+  // Actions the compensating requests are dispatched with; missing ones are skipped
+  actions: Partial<
+    Pick<AddActionsGroup<TEntity>, 'add'> &
+      Pick<UpdateActionsGroup<TEntity>, 'update'> &
+      Pick<DeleteActionsGroup, 'delete'>
+  >;
+  // Replaces the default mapping of a change to add, update or delete
+  compensate?: (
+    change: HistoryChange<TEntity>,
+    correlationId: string,
+  ) => Action | null;
+}
+
+/** ===== Effect Helpers ===== */
+
+export const DEFAULT_RETRYABLE_STATUSES = [0, 408, 429, 500, 502, 503, 504];
+
+function resolveMessage<T>(
+  message: string | ((data: T) => string) | undefined,
+  data: T,
+  defaultMessage: string,
+): string {
+  if (!message) return defaultMessage;
+  return typeof message === 'function' ? message(data) : message;
+}
+
+function resolveSuccessMessage<T>(
+  config: EffectConfig<T> | undefined,
+  result: T,
+): string | undefined {
+  return config?.successMessage
+    ? resolveMessage(config.successMessage, result, '')
+    : undefined;
+}
+
+function toFieldErrors(value: unknown): Record<string, string[]> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value).map(([field, messages]) => [
+      field,
+      (Array.isArray(messages) ? messages : [messages]).map(String),
+    ]),
+  );
+}
+
+/** Converts a thrown error (usually an HttpErrorResponse) into a StateError. */
+export function toStateError(
+  error: any,
+  action: Action | null,
+  config?: EffectConfig,
+  defaultMessage = 'Request failed',
+): StateError {
+  // HttpErrorResponse keeps the response body on `error`
+  const body =
+    error?.error && typeof error.error === 'object' ? error.error : {};
+  const status = typeof error?.status === 'number' ? error.status : null;
+  const statuses =
+    config?.retry?.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES;
+
+  return createStateError(
+    resolveMessage(
+      config?.errorMessage,
+      error,
+      body.message || error?.message || defaultMessage,
+    ),
+    {
+      code: body.code ?? null,
+      status,
+      fieldErrors: toFieldErrors(body.fieldErrors ?? body.errors),
+      retryable: status !== null && statuses.includes(status),
+      action,
+    },
+  );
+}
+
+// Thrown by validateResponse, so the request fails like any other failed load
+class InvalidResponse {
+  constructor(readonly issues: ValidationIssue[]) {}
+}
+
+function validateResponse<T>(
+  data: T,
+  validation: ResponseValidation<T> | undefined,
+): T {
+  if (!validation) return data;
+  const { schema, ...options } = validation;
+  const result = schema.validate(data, options);
+  if (!result.ok) throw new InvalidResponse(result.issues);
+  return result.value;
+}
+
+/**
+ * loadFailure for a failed load. Responses that failed validation are reported first
+ * through responseValidationFailed, and their StateError has the INVALID_RESPONSE code
+ * and the issue messages as fieldErrors keyed by path.
+ */
+function loadFailureActions(
+  actions: Pick<LoadActionsGroup<unknown>, 'loadFailure'>,
+  origin: Action,
+  config: EffectConfig | undefined,
+  error: any,
+): Action[] {
+  if (!(error instanceof InvalidResponse)) {
+    return [
+      actions.loadFailure({
+        error: toStateError(error, origin, config, 'Load failed'),
+      }),
+    ];
+  }
+
+  const fieldErrors: Record<string, string[]> = {};
+  error.issues.forEach(({ path, message }) => {
+    const field = formatIssuePath(path);
+    fieldErrors[field] = [...(fieldErrors[field] ?? []), message];
+  });
+  return [
+    responseValidationFailed({ action: origin, issues: error.issues }),
+    actions.loadFailure({
+      error: createStateError(
+        resolveMessage(config?.errorMessage, error, 'Invalid response'),
+        { code: INVALID_RESPONSE_CODE, fieldErrors, action: origin },
+      ),
+    }),
+  ];
+}
+
+function isFresh(
+  slice: SliceState,
+  cacheKey: string | null,
+  ttl: number | undefined,
+): boolean {
+  if (!isSliceLoaded(slice) || slice.cacheKey !== cacheKey) return false;
+  if (ttl === undefined) return true;
+  return slice.lastLoadedAt !== null && Date.now() - slice.lastLoadedAt < ttl;
+}
+
+function isRetryable(policy: RetryPolicy, error: any): boolean {
+  const statuses = policy.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES;
+  return typeof error?.status === 'number' && statuses.includes(error.status);
+}
+
+/** Exponential backoff before the given retry (1 for the first), with jitter applied. */
+export function retryDelay(policy: RetryPolicy, retry: number): number {
+  const backoff = Math.min(
+    (policy.backoffMs ?? 500) * 2 ** (retry - 1),
+    policy.maxBackoffMs ?? 30_000,
+  );
+  return backoff * (1 - (policy.jitter ?? 0.5) * Math.random());
+}
+
+function mutationRetryPolicy(
+  config: MutationEffectConfig | undefined,
+  idempotentByDefault: boolean,
+): RetryPolicy | undefined {
+  const policy = config?.retry;
+  const idempotent = config?.idempotent ?? idempotentByDefault;
+  return policy && (idempotent || policy.idempotentOnly === false)
+    ? policy
+    : undefined;
+}
+
+// Re-runs the request on retryable errors, announcing each retry with operationRetrying
+function withRetry(
+  origin: Action,
+  request: () => Observable<Action>,
+  policy: RetryPolicy | undefined,
+): Observable<Action> {
+  if (!policy) return request();
+
+  const attempt = (current: number): Observable<Action> =>
+    request().pipe(
+      catchError((error: any) => {
+        if (current >= policy.maxAttempts || !isRetryable(policy, error)) {
+          return throwError(() => error);
+        }
+        return concat(
+          of(
+            operationRetrying({
+              action: origin,
+              attempt: current + 1,
+              maxAttempts: policy.maxAttempts,
+            }),
+          ),
+          timer(retryDelay(policy, current)).pipe(
+            switchMap(() => attempt(current + 1)),
+          ),
+        );
+      }),
+    );
+
+  return defer(() => attempt(1));
+}
+
+// exhaustMap that emits actionDropped instead of silently ignoring busy-time actions
+function exhaustMapReportingDrops<A extends Action, R>(
+  project: (action: A) => Observable<R>,
+): OperatorFunction<A, R | Action> {
+  return (source) =>
+    defer(() => {
+      let inFlight: A | null = null;
+      return source.pipe(
+        mergeMap((action): Observable<R | Action> => {
+          if (inFlight) return of(actionDropped({ action, inFlight }));
+          inFlight = action;
+          return project(action).pipe(finalize(() => (inFlight = null)));
+        }),
+      );
+    });
+}
+
+// Like switchMap, except that values with the key already in flight join that request
+// instead of restarting it, unless `restart` says otherwise
+function switchMapJoiningInFlight<A, R>(
+  keyOf: (value: A) => string,
+  restart: (value: A) => boolean,
+  project: (value: A) => Observable<R>,
+): OperatorFunction<A, R> {
+  return (source) =>
+    defer(() => {
+      let inFlight: string | null = null;
+      return source.pipe(
+        filter((value) => restart(value) || keyOf(value) !== inFlight),
+        switchMap((value) => {
+          const key = keyOf(value);
+          inFlight = key;
+          return project(value).pipe(
+            finalize(() => {
+              if (inFlight === key) inFlight = null;
+            }),
+          );
+        }),
+      );
+    });
+}
+
+// Like concatMap per key, with different keys in parallel; the queue of a key is
+// released as soon as it runs empty, so keys seen once are not kept for good
+function concatMapByKey<A, R>(
+  keyOf: (value: A) => EntityId,
+  project: (value: A) => Observable<R>,
+): OperatorFunction<A, R> {
+  return (source) =>
+    defer(() => {
+      const queued = new Map<EntityId, number>();
+      const idle$ = new Subject<EntityId>();
+      const settle = (key: EntityId) => {
+        const left = queued.get(key)! - 1;
+        if (left > 0) {
+          queued.set(key, left);
+        } else {
+          queued.delete(key);
+          idle$.next(key);
+        }
+      };
+      return source.pipe(
+        groupBy(
+          (value) => {
+            const key = keyOf(value);
+            queued.set(key, (queued.get(key) ?? 0) + 1);
+            return key;
+          },
+          {
+            duration: ({ key }) => idle$.pipe(filter((idle) => idle === key)),
+          },
+        ),
+        mergeMap((group) =>
+          group.pipe(
+            concatMap((value) =>
+              project(value).pipe(finalize(() => settle(group.key))),
+            ),
+          ),
+        ),
+      );
+    });
+}
+
+function flattenActions<A extends Action, R>(
+  strategy: ConcurrencyStrategy,
+  keyOf: (action: A) => EntityId,
+  project: (action: A) => Observable<R>,
+): OperatorFunction<A, R | Action> {
+  switch (strategy) {
+    case 'switch':
+      return switchMap(project);
+    case 'merge':
+      return mergeMap(project);
+    case 'concat':
+      return concatMap(project);
+    case 'keyed':
+      return concatMapByKey(keyOf, project);
+    case 'exhaust':
+      return exhaustMapReportingDrops(project);
+  }
+}
+
+/**
+ * The action group decides TResponse and TParams; a load service whose params or
+ * response do not match them is a compile error rather than a silent `any`.
+ */
+export function createLoadEffect<TResponse, TParams = any, TState = any>(
+  actions$: Actions,
+  actions: LoadActionsGroup<TResponse, TParams>,
+  loadService: LoadService<TResponse, TParams>,
+  config?: LoadEffectConfig<TResponse, TState>,
+): Observable<Action> {
+  const { store, selector, state$ } = config ?? {};
+  const current$ =
+    state$ ?? (store && selector ? store.select(selector) : of(null));
+
+  return actions$.pipe(
+    ofType(actions.load),
+    withLatestFrom(current$),
+    // Identical loads share the request in flight, so every caller gets its loadSuccess
+    switchMapJoiningInFlight(
+      ([{ params }]) => `${serializeParams(params)}`,
+      ([{ forceReload }]) => !!forceReload,
+      ([action, current]) => {
+        const { params, forceReload, cacheKey } = action;
+        // Fresh data for these params already in the store: nothing to do
+        if (
+          current &&
+          !forceReload &&
+          isFresh(current, cacheKey, config?.ttl)
+        ) {
+          return of(actions.loadCancelled());
+        }
+
+        return withRetry(
+          action,
+          () =>
+            loadService(params).pipe(
+              map((response: TResponse) => {
+                const data = validateResponse(response, config?.validate);
+                return actions.loadSuccess({
+                  data,
+                  message: resolveSuccessMessage(config, data),
+                  params,
+                  cacheKey,
+                  loadedAt: Date.now(),
+                });
+              }),
+            ),
+          config?.retry,
+        ).pipe(
+          catchError((error: any) =>
+            from(loadFailureActions(actions, action, config, error)),
+          ),
+        );
+      },
+    ),
+  );
+}
+
+/** Emits whether the tab is visible and the browser online, on start and on every change. */
+export function browserActivity$(): Observable<boolean> {
+  if (typeof document === 'undefined') return of(true);
+  return merge(
+    fromEvent(document, 'visibilitychange'),
+    fromEvent(window, 'online'),
+    fromEvent(window, 'offline'),
+  ).pipe(
+    startWith(null),
+    map(() => document.visibilityState !== 'hidden' && navigator.onLine),
+    distinctUntilChanged(),
+  );
+}
+
+/**
+ * Reloads through the load service from startPolling until stopPolling: immediately,
+ * then every interval. Polls pause while `active$` is false and run again as soon as it
+ * turns true; failed polls double the delay before the next one.
+ */
+export function createPollingEffect<TResponse, TParams = any>(
+  actions$: Actions,
+  actions: LoadActionsGroup<TResponse, TParams> & PollingActionsGroup<TParams>,
+  loadService: LoadService<TResponse, TParams>,
+  config?: PollingEffectConfig<TResponse>,
+): Observable<Action> {
+  const active$ = config?.active$ ?? browserActivity$();
+
+  return actions$.pipe(
+    ofType(actions.startPolling),
+    switchMap(({ params, intervalMs = config?.intervalMs ?? 30_000 }) => {
+      // Polled requests report failures and retries as this forced reload
+      const origin = actions.load({ params, forceReload: true });
+      const backoff: RetryPolicy = {
+        maxAttempts: Infinity,
+        backoffMs: intervalMs,
+        maxBackoffMs: Math.max(intervalMs, config?.maxBackoffMs ?? 300_000),
+        jitter: 0,
+      };
+      const status = (status: PollingStatus['status']) =>
+        actions.pollingStatusChanged({ status, intervalMs });
+
+      const polls = defer(() => {
+        let failures = 0;
+        const poll = (): Observable<Action> =>
+          concat(
+            withRetry(
+              origin,
+              () =>
+                loadService(params).pipe(
+                  map((response: TResponse) => {
+                    const data = validateResponse(response, config?.validate);
+                    failures = 0;
+                    return actions.loadSuccess({
+                      data,
+                      message: resolveSuccessMessage(config, data),
+                      params,
+                      cacheKey: origin.cacheKey,
+                      loadedAt: Date.now(),
+                    });
+                  }),
+                ),
+              config?.retry,
+            ).pipe(
+              catchError((error: any) => {
+                failures += 1;
+                return from(loadFailureActions(actions, origin, config, error));
+              }),
+            ),
+            defer(() => timer(retryDelay(backoff, failures + 1))).pipe(
+              switchMap(poll),
+            ),
+          );
+        return poll();
+      });
+
+      return active$.pipe(
+        distinctUntilChanged(),
+        switchMap((active) =>
+          active ? concat(of(status('active')), polls) : of(status('paused')),
+        ),
+        takeUntil(actions$.pipe(ofType(actions.stopPolling))),
+        endWith(status('stopped')),
+      );
+    }),
+  );
+}
+
+export function createAddEffect<TRequest, TResponse = any>(
+  actions$: Actions,
+  actions: AddActionsGroup<TRequest, TResponse>,
+  addService: (payload: TRequest) => Observable<TResponse>,
+  config?: AddEffectConfig<TResponse, TRequest>,
+): Observable<Action> {
+  return actions$.pipe(
+    ofType(actions.add),
+    flattenActions<ReturnType<typeof actions.add>, Action>(
+      config?.concurrency ?? 'exhaust',
+      config?.concurrencyKey ?? (() => 'add'),
+      (action) => {
+        const { payload, correlationId } = action;
+        return withRetry(
+          action,
+          () =>
+            addService(payload).pipe(
+              map((item: TResponse) =>
+                actions.addSuccess({
+                  item,
+                  message: resolveSuccessMessage(config, item),
+                  correlationId,
+                }),
+              ),
+            ),
+          mutationRetryPolicy(config, false),
+        ).pipe(
+          catchError((error: any) =>
+            of(
+              actions.addFailure({
+                error: toStateError(error, action, config, 'Add failed'),
+                correlationId,
+              }),
+            ),
+          ),
+        );
+      },
+    ),
+  );
+}
+
+export function createUpdateEffect<TRequest, TResponse = any>(
+  actions$: Actions,
+  actions: UpdateActionsGroup<TRequest, TResponse>,
+  updateService: (id: EntityId, payload: TRequest) => Observable<TResponse>,
+  config?: UpdateEffectConfig<TResponse, TRequest>,
+): Observable<Action> {
+  return actions$.pipe(
+    ofType(actions.update),
+    flattenActions<ReturnType<typeof actions.update>, Action>(
+      config?.concurrency ?? 'keyed',
+      config?.concurrencyKey ?? (({ id }) => id),
+      (action) => {
+        const { id, payload, correlationId } = action;
+        return withRetry(
+          action,
+          () =>
+            updateService(id, payload).pipe(
+              map((item: TResponse) =>
+                actions.updateSuccess({
+                  item,
+                  id,
+                  message: resolveSuccessMessage(config, item),
+                  correlationId,
+                }),
+              ),
+            ),
+          mutationRetryPolicy(config, true),
+        ).pipe(
+          catchError((error: any) =>
+            of(
+              actions.updateFailure({
+                error: toStateError(error, action, config, 'Update failed'),
+                id,
+                correlationId,
+              }),
+            ),
+          ),
+        );
+      },
+    ),
+  );
+}
+
+export function createDeleteEffect<TId extends DeleteId = EntityId>(
+  actions$: Actions,
+  actions: DeleteActionsGroup,
+  deleteService: (id: TId) => Observable<unknown>,
+  config?: DeleteEffectConfig,
+): Observable<Action> {
+  return actions$.pipe(
+    ofType(actions.delete),
+    flattenActions<ReturnType<typeof actions.delete>, Action>(
+      config?.concurrency ?? 'keyed',
+      config?.concurrencyKey ?? (({ id }) => String(id)),
+      (action) => {
+        const { id, correlationId } = action;
+        return withRetry(
+          action,
+          () =>
+            deleteService(id as TId).pipe(
+              map(() =>
+                actions.deleteSuccess({
+                  id,
+                  message: resolveSuccessMessage(config, id),
+                  correlationId,
+                }),
+              ),
+            ),
+          mutationRetryPolicy(config, true),
+        ).pipe(
+          catchError((error: any) =>
+            of(
+              actions.deleteFailure({
+                error: toStateError(error, action, config, 'Delete failed'),
+                id,
+                correlationId,
+              }),
+            ),
+          ),
+        );
+      },
+    ),
+  );
+}
+
+// Bulk endpoints that can reject single items answer with a BulkOutcome
+function isBulkOutcome<TResult>(
+  response: unknown,
+): response is BulkOutcome<TResult> {
+  return (
+    !!response &&
+    typeof response === 'object' &&
+    Array.isArray((response as BulkOutcome<TResult>).failed)
+  );
+}
+
+interface SettledBulk<TResult> {
+  succeeded: { index: number; result: TResult }[];
+  failed: { index: number; error: unknown }[];
+}
+
+// Sends the batch to the bulk endpoint or fans out to the single-item service
+function runBulk<TItem, TResult>(
+  items: TItem[],
+  service: BulkService<TItem, TResult>,
+  maxConcurrent = 4,
+): Observable<SettledBulk<TResult>> {
+  if ('bulk' in service) {
+    return service.bulk(items).pipe(
+      map((response) => {
+        // Anything but an outcome means every item went through
+        if (!isBulkOutcome<TResult>(response)) {
+          return {
+            succeeded: items.map((_, index) => ({
+              index,
+              result: (response as TResult[] | null)?.[index] as TResult,
+            })),
+            failed: [],
+          };
+        }
+        const rejected = new Set(response.failed.map(({ index }) => index));
+        const accepted = items
+          .map((_, index) => index)
+          .filter((index) => !rejected.has(index));
+        return {
+          succeeded: response.succeeded.map((result, i) => ({
+            index: accepted[i],
+            result,
+          })),
+          failed: response.failed,
+        };
+      }),
+    );
+  }
+
+  return from(items).pipe(
+    mergeMap(
+      (item, index) =>
+        service.single(item).pipe(
+          map((result) => ({ index, result, ok: true as const })),
+          catchError((error: unknown) =>
+            of({ index, error, ok: false as const }),
+          ),
+        ),
+      maxConcurrent,
+    ),
+    toArray(),
+    map((settled) => {
+      const ordered = [...settled].sort((a, b) => a.index - b.index);
+      return {
+        succeeded: ordered.flatMap((entry) => (entry.ok ? [entry] : [])),
+        failed: ordered.flatMap((entry) => (entry.ok ? [] : [entry])),
+      };
+    }),
+  );
+}
+
+function toBulkFailures(
+  failed: SettledBulk<unknown>['failed'],
+  idOf: (index: number) => EntityId | null,
+  action: Action,
+  config: BulkEffectConfig | undefined,
+  defaultMessage: string,
+): BulkFailure[] {
+  return failed.map(({ index, error }) => ({
+    index,
+    id: idOf(index),
+    error: toStateError(error, action, config, defaultMessage),
+  }));
+}
+
+export function createAddManyEffect<TRequest, TResponse = any>(
+  actions$: Actions,
+  actions: Pick<
+    BulkActionsGroup<TRequest, any, TResponse>,
+    'addMany' | 'addManySuccess' | 'addManyFailure'
+  >,
+  service: BulkService<TRequest, TResponse>,
+  config?: BulkEffectConfig<TResponse>,
+): Observable<Action> {
+  return actions$.pipe(
+    ofType(actions.addMany),
+    concatMap((action) => {
+      const { payloads, correlationId } = action;
+      return runBulk(payloads, service, config?.maxConcurrent).pipe(
+        map(({ succeeded, failed }) => {
+          const items = succeeded.map(({ result }) => result);
+          return actions.addManySuccess({
+            items,
+            failed: toBulkFailures(
+              failed,
+              () => null,
+              action,
+              config,
+              'Add failed',
+            ),
+            message: resolveSuccessMessage(config, items),
+            correlationId,
+          });
+        }),
+        catchError((error: any) =>
+          of(
+            actions.addManyFailure({
+              error: toStateError(error, action, config, 'Add failed'),
+              correlationId,
+            }),
+          ),
+        ),
+      );
+    }),
+  );
+}
+
+export function createUpdateManyEffect<TRequest, TResponse = any>(
+  actions$: Actions,
+  actions: Pick<
+    BulkActionsGroup<any, TRequest, TResponse>,
+    'updateMany' | 'updateManySuccess' | 'updateManyFailure'
+  >,
+  service: BulkService<BulkUpdate<TRequest>, TResponse>,
+  config?: BulkEffectConfig<TResponse>,
+): Observable<Action> {
+  return actions$.pipe(
+    ofType(actions.updateMany),
+    concatMap((action) => {
+      const { updates, correlationId } = action;
+      const ids = updates.map(({ id }) => id);
+      return runBulk(updates, service, config?.maxConcurrent).pipe(
+        map(({ succeeded, failed }) => {
+          const items = succeeded.map(({ result }) => result);
+          return actions.updateManySuccess({
+            items,
+            ids: succeeded.map(({ index }) => ids[index]),
+            failed: toBulkFailures(
+              failed,
+              (index) => ids[index],
+              action,
+              config,
+              'Update failed',
+            ),
+            message: resolveSuccessMessage(config, items),
+            correlationId,
+          });
+        }),
+        catchError((error: any) =>
+          of(
+            actions.updateManyFailure({
+              error: toStateError(error, action, config, 'Update failed'),
+              ids,
+              correlationId,
+            }),
+          ),
+        ),
+      );
+    }),
+  );
+}
+
+export function createDeleteManyEffect(
+  actions$: Actions,
+  actions: Pick<
+    BulkActionsGroup<any>,
+    'deleteMany' | 'deleteManySuccess' | 'deleteManyFailure'
+  >,
+  // Bulk delete endpoints usually answer without a body
+  service:
+    | BulkService<EntityId, unknown>
+    | { bulk: (ids: EntityId[]) => Observable<unknown> },
+  config?: BulkEffectConfig<EntityId>,
+): Observable<Action> {
+  return actions$.pipe(
+    ofType(actions.deleteMany),
+    concatMap((action) => {
+      const { ids, correlationId } = action;
+      return runBulk(
+        ids,
+        service as BulkService<EntityId, unknown>,
+        config?.maxConcurrent,
+      ).pipe(
+        map(({ succeeded, failed }) => {
+          const deleted = succeeded.map(({ index }) => ids[index]);
+          return actions.deleteManySuccess({
+            ids: deleted,
+            failed: toBulkFailures(
+              failed,
+              (index) => ids[index],
+              action,
+              config,
+              'Delete failed',
+            ),
+            message: resolveSuccessMessage(config, deleted),
+            correlationId,
+          });
+        }),
+        catchError((error: any) =>
+          of(
+            actions.deleteManyFailure({
+              error: toStateError(error, action, config, 'Delete failed'),
+              ids,
+              correlationId,
+            }),
+          ),
+        ),
+      );
+    }),
+  );
+}
+
+/**
+ * Sends the entities changed by undo/redo back to the server as add, update or
+ * delete actions, which the regular effects then handle.
+ */
+export function createHistoryEffect<TEntity = any>(
+  actions$: Actions,
+  actions: HistoryActionsGroup,
+  history$: Observable<HistoryState>,
+  config: HistoryEffectConfig<TEntity>,
+): Observable<Action> {
+  const { add, update, delete: remove } = config.actions;
+  const compensate =
+    config.compensate ??
+    ((change: HistoryChange<TEntity>, correlationId: string) => {
+      const { id, before, after } = change;
+      if (after === null) return remove?.({ id, correlationId }) ?? null;
+      if (before === null)
+        return add?.({ payload: after, correlationId }) ?? null;
+      return update?.({ id, payload: after, correlationId }) ?? null;
+    });
+
+  return actions$.pipe(
+    ofType(actions.undo, actions.redo),
+    withLatestFrom(history$),
+    mergeMap(([action, { lastRestore }]) => {
+      // Undo/redo with nothing to restore
+      if (lastRestore?.correlationId !== action.correlationId) return EMPTY;
+      return from(
+        lastRestore.changes
+          .map((change, index) =>
+            compensate(
+              change,
+              historyCorrelationId(action.correlationId, index),
+            ),
+          )
+          .filter((compensation): compensation is Action => !!compensation),
+      );
+    }),
+  );
+}
@@ -0,0 +1,208 @@
+import { TestBed } from '@angular/core/testing';
+import { FormControl, FormGroup, Validators } from '@angular/forms';
+import { MockStore } from '@ngrx/store/testing';
+
+import { createCrudActions } from './generic-state.actions';
+import { applyFieldErrors, bindEntityForm } from './generic-state.forms';
+import {
+  createDefaultState,
+  createStateError,
+  DefaultState,
+} from './generic-state.models';
+import { createGenericSelectors } from './generic-state.selectors';
+import { createMockFeatureStore } from './testing/mock-feature-store';
+
+interface Product {
+  id: number;
+  name: string;
+  price: number;
+}
+
+interface CatalogState {
+  products: DefaultState<Product[]>;
+}
+
+describe('bindEntityForm', () => {
+  const ProductActions = createCrudActions<
+    Product[],
+    Partial<Product>,
+    Partial<Product>
+  >('Product');
+  const ProductSelectors = createGenericSelectors<CatalogState, Product[]>(
+    'catalog',
+    'products',
+  );
+  const laptop: Product = { id: 1, name: 'Laptop', price: 900 };
+  const catalog = createMockFeatureStore<CatalogState>('catalog', {
+    products: createDefaultState([laptop]),
+  });
+  let store: MockStore;
+  let dispatch: jasmine.Spy;
+  let form: FormGroup;
+
+  const createForm = () =>
+    new FormGroup({
+      name: new FormControl('', { nonNullable: true }),
+      price: new FormControl(0, {
+        nonNullable: true,
+        validators: Validators.min(1),
+      }),
+    });
+
+  function bind(id: number | null) {
+    return bindEntityForm<Product>({
+      form,
+      store,
+      actions: ProductActions,
+      selectors: ProductSelectors,
+      id,
+      toFormValue: ({ name, price }) => ({ name, price }),
+    });
+  }
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: catalog.providers });
+    store = catalog.store();
+    dispatch = spyOn(store, 'dispatch');
+    form = createForm();
+  });
+
+  it('should fill the form from the store and track dirty against it', () => {
+    const binding = bind(1);
+    const dirty: boolean[] = [];
+    binding.dirty$.subscribe((value) => dirty.push(value));
+
+    expect(form.value).toEqual({ name: 'Laptop', price: 900 });
+    form.patchValue({ name: 'Laptop Pro' });
+    expect(form.dirty).toBeTrue();
+    form.patchValue({ name: 'Laptop' });
+    expect(form.pristine).toBeTrue();
+    expect(dirty).toEqual([false, true, false]);
+
+    catalog.patchSlice('products', { data: [{ ...laptop, price: 800 }] });
+    expect(form.value.price).toBe(800);
+    form.patchValue({ name: 'Notebook' });
+    catalog.patchSlice('products', { data: [{ ...laptop, price: 700 }] });
+    expect(form.value).toEqual({ name: 'Notebook', price: 800 });
+
+    binding.reset();
+    expect(form.value).toEqual({ name: 'Laptop', price: 700 });
+    expect(form.pristine).toBeTrue();
+  });
+
+  it('should dispatch update and disable the form until it is saved', () => {
+    const binding = bind(1);
+    form.patchValue({ price: 850 });
+
+    expect(binding.submit()).toBeTrue();
+    expect(dispatch).toHaveBeenCalledOnceWith(
+      jasmine.objectContaining({
+        type: ProductActions.update.type,
+        id: 1,
+        payload: { name: 'Laptop', price: 850 },
+      }),
+    );
+
+    catalog.patchSlice('products', { updating: { 1: true } });
+    expect(form.disabled).toBeTrue();
+    catalog.patchSlice('products', {
+      data: [{ ...laptop, price: 849 }],
+      updating: {},
+    });
+    expect(form.enabled).toBeTrue();
+    expect(form.value).toEqual({ name: 'Laptop', price: 849 });
+    expect(form.pristine).toBeTrue();
+  });
+
+  it('should not submit again while the request is pending', () => {
+    const binding = bind(1);
+    form.patchValue({ price: 850 });
+
+    expect(binding.submit()).toBeTrue();
+    expect(binding.submit()).toBeFalse();
+    catalog.patchSlice('products', { updating: { 1: true } });
+    expect(binding.submit()).toBeFalse();
+    expect(dispatch).toHaveBeenCalledTimes(1);
+
+    catalog.patchSlice('products', { updating: {} });
+    form.patchValue({ price: 800 });
+    expect(binding.submit()).toBeTrue();
+    expect(dispatch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should map field errors onto the controls and keep the edits', () => {
+    const binding = bind(1);
+    form.controls['name'].disable();
+    form.patchValue({ price: 850 });
+    binding.submit();
+
+    catalog.patchSlice('products', { updating: { 1: true } });
+    catalog.patchSlice('products', {
+      updating: {},
+      entityErrors: {
+        1: createStateError('Invalid product', {
+          status: 422,
+          fieldErrors: { price: ['Too expensive'], sku: ['Taken'] },
+        }),
+      },
+    });
+
+    expect(form.controls['name'].disabled).toBeTrue();
+    expect(form.controls['price'].errors).toEqual({
+      server: ['Too expensive'],
+    });
+    expect(form.errors).toEqual({ server: { sku: ['Taken'] } });
+    expect(form.value.price).toBe(850);
+    expect(form.dirty).toBeTrue();
+  });
+
+  it('should add new entities and start over once added', () => {
+    const binding = bind(null);
+
+    form.patchValue({ name: 'Mouse' });
+    expect(binding.submit()).toBeFalse();
+    expect(form.controls['price'].touched).toBeTrue();
+
+    form.patchValue({ price: 25 });
+    expect(binding.submit()).toBeTrue();
+    catalog.patchSlice('products', { isAdding: true });
+    catalog.patchSlice('products', { isAdding: false });
+
+    expect(dispatch).toHaveBeenCalledOnceWith(
+      jasmine.objectContaining({
+        type: ProductActions.add.type,
+        payload: { name: 'Mouse', price: 25 },
+      }),
+    );
+    expect(form.value).toEqual({ name: '', price: 0 });
+    expect(form.pristine).toBeTrue();
+  });
+
+  it('should require the actions of its mode', () => {
+    expect(() =>
+      bindEntityForm<Product>({
+        form,
+        store,
+        actions: { add: ProductActions.add },
+        selectors: ProductSelectors,
+        id: 1,
+      }),
+    ).toThrowError('Form binding requires update actions');
+  });
+});
+
+describe('applyFieldErrors', () => {
+  it('should reach nested controls through dotted names', () => {
+    const form = new FormGroup({
+      address: new FormGroup({ city: new FormControl('') }),
+    });
+
+    applyFieldErrors(form, { 'address.city': ['Unknown city'] });
+
+    expect(form.get('address.city')?.errors).toEqual({
+      server: ['Unknown city'],
+    });
+    form.get('address.city')?.setValue('Berlin');
+    expect(form.get('address.city')?.errors).toBeNull();
+  });
+});
@@ -0,0 +1,204 @@
+import { DestroyRef } from '@angular/core';
+import { AbstractControl, FormGroup } from '@angular/forms';
+import { createSelector, Selector, Store } from '@ngrx/store';
+import { BehaviorSubject, Observable, Subscription } from 'rxjs';
+
+import {
+  AddActionsGroup,
+  serializeParams,
+  UpdateActionsGroup,
+} from './generic-state.actions';
+import { EntityId, StateError } from './generic-state.models';
+
+/** ===== Form Binding Types ===== */
+
+// The parts of createGenericSelectors a form binding reads
+export interface EntityFormSelectors<TEntity> {
+  selectById: (id: EntityId) => Selector<object, TEntity | undefined>;
+  selectIsAdding: Selector<object, boolean>;
+  selectAddError: Selector<object, StateError | null>;
+  selectIsEntityUpdating: (id: EntityId) => Selector<object, boolean>;
+  selectEntityError: (id: EntityId) => Selector<object, StateError | null>;
+}
+
+export interface EntityFormConfig<TEntity, TPayload> {
+  form: FormGroup;
+  store: Store;
+  // add for new entities, update for existing ones
+  actions: Partial<
+    Pick<AddActionsGroup<TPayload>, 'add'> &
+      Pick<UpdateActionsGroup<TPayload>, 'update'>
+  >;
+  selectors: EntityFormSelectors<TEntity>;
+  // Entity to edit; without it, submit adds a new entity
+  id?: EntityId | null;
+  // Form value of the entity; defaults to the entity itself
+  toFormValue?: (entity: TEntity) => Record<string, unknown>;
+  // Payload of add/update; defaults to the raw form value
+  toPayload?: (value: Record<string, unknown>) => TPayload;
+  // Unbinds automatically when the component is destroyed
+  destroyRef?: DestroyRef;
+}
+
+export interface EntityFormBinding {
+  // Whether the form value differs from the entity in the store (or the initial value when adding)
+  dirty$: Observable<boolean>;
+  // Dispatches add or update; invalid forms are only marked as touched. Returns false
+  // without dispatching while the previous submit is pending
+  submit(): boolean;
+  // Discards the changes, restoring the store value
+  reset(): void;
+  unbind(): void;
+}
+
+/** ===== Form Binding Helpers ===== */
+
+/**
+ * Sets the messages of structured field errors (`StateError.fieldErrors`) as `server`
+ * errors on the matching controls; dotted names reach nested controls. Messages for
+ * fields without a control are set on the form itself. The errors clear as soon as the
+ * control's value changes.
+ */
+export function applyFieldErrors(
+  form: FormGroup,
+  fieldErrors: Record<string, string[]>,
+): void {
+  const unmatched: Record<string, string[]> = {};
+  Object.entries(fieldErrors).forEach(([field, messages]) => {
+    const control = form.get(field);
+    if (control) {
+      control.setErrors({ ...control.errors, server: messages });
+      control.markAsTouched();
+    } else {
+      unmatched[field] = messages;
+    }
+  });
+  if (Object.keys(unmatched).length > 0) {
+    form.setErrors({ ...form.errors, server: unmatched });
+  }
+}
+
+/**
+ * Connects a FormGroup to one entity of a generic slice: fills the form from the store,
+ * keeps dirty/pristine in line with the store value, dispatches add or update on submit,
+ * disables the form while that request is pending and maps its field errors onto the
+ * controls. Store changes replace the form value unless the user has unsaved edits.
+ */
+export function bindEntityForm<TEntity, TPayload = Partial<TEntity>>(
+  config: EntityFormConfig<TEntity, TPayload>,
+): EntityFormBinding {
+  const { form, store, actions, selectors, id = null, destroyRef } = config;
+  const toFormValue =
+    config.toFormValue ??
+    ((entity: TEntity) => entity as Record<string, unknown>);
+  const toPayload =
+    config.toPayload ?? ((value: Record<string, unknown>) => value as TPayload);
+  if (id === null ? !actions.add : !actions.update) {
+    throw new Error(
+      `Form binding requires ${id === null ? 'add' : 'update'} actions`,
+    );
+  }
+
+  // Form value of the entity in the store; what the form is compared to
+  let stored: Record<string, unknown> = form.getRawValue();
+  let submitting = false;
+  // Controls the app disabled itself, which stay disabled when the request settles
+  let keptDisabled: AbstractControl[] | null = null;
+  let lastError: StateError | null = null;
+  const dirty = new BehaviorSubject(false);
+
+  const track = () => {
+    const changed = Object.entries(form.getRawValue()).some(
+      ([key, value]) => serializeParams(value) !== serializeParams(stored[key]),
+    );
+    if (changed) form.markAsDirty();
+    else form.markAsPristine();
+    if (changed !== dirty.value) dirty.next(changed);
+  };
+
+  const restore = () => {
+    form.reset(stored, { emitEvent: false });
+    track();
+  };
+
+  const subscription = new Subscription();
+  subscription.add(form.valueChanges.subscribe(track));
+
+  if (id !== null) {
+    subscription.add(
+      store.select(selectors.selectById(id)).subscribe((entity) => {
+        if (!entity) return;
+        stored = toFormValue(entity);
+        // Unsaved edits and submitted values stay until the request settles
+        if (dirty.value || submitting) track();
+        else restore();
+      }),
+    );
+  }
+
+  const selectRequest = createSelector(
+    id === null
+      ? selectors.selectIsAdding
+      : selectors.selectIsEntityUpdating(id),
+    id === null ? selectors.selectAddError : selectors.selectEntityError(id),
+    (pending, error) => ({ pending, error }),
+  );
+  subscription.add(
+    store.select(selectRequest).subscribe(({ pending, error }) => {
+      if (pending) {
+        if (form.enabled) {
+          keptDisabled = Object.values(form.controls).filter(
+            (control) => control.disabled,
+          );
+          form.disable({ emitEvent: false });
+        }
+        return;
+      }
+      if (keptDisabled) {
+        form.enable({ emitEvent: false });
+        keptDisabled.forEach((control) =>
+          control.disable({ emitEvent: false }),
+        );
+        keptDisabled = null;
+      }
+      // Enabling revalidates the controls, so server errors are applied afterwards
+      if (error && error !== lastError) {
+        applyFieldErrors(form, error.fieldErrors);
+      } else if (submitting && !error) {
+        // Saved: show the stored entity, or the initial value again after an add
+        restore();
+      }
+      lastError = error;
+      submitting = false;
+    }),
+  );
+
+  const unbind = () => {
+    subscription.unsubscribe();
+    unregister?.();
+    dirty.complete();
+  };
+  const unregister = destroyRef?.onDestroy(unbind);
+
+  return {
+    dirty$: dirty.asObservable(),
+    submit: () => {
+      // A disabled form is neither valid nor invalid; it is disabled while a request is pending
+      if (submitting || form.disabled) return false;
+      if (form.invalid) {
+        form.markAllAsTouched();
+        return false;
+      }
+      submitting = true;
+      const payload = toPayload(form.getRawValue());
+      store.dispatch(
+        id === null
+          ? actions.add!({ payload })
+          : actions.update!({ id, payload }),
+      );
+      return true;
+    },
+    reset: restore,
+    unbind,
+  };
+}
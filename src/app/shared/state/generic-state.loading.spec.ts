@@ -0,0 +1,63 @@
+import {
+  createEnvironmentInjector,
+  DestroyRef,
+  EnvironmentInjector,
+} from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { MockStore, provideMockStore } from '@ngrx/store/testing';
+
+import { createLoadActions } from './generic-state.actions';
+import { ensureLoaded } from './generic-state.loading';
+
+describe('ensureLoaded', () => {
+  const ScanActions = createLoadActions<string[], { platform: string }>('Scan');
+  let store: MockStore;
+  let dispatch: jasmine.Spy;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [provideMockStore()] });
+    store = TestBed.inject(MockStore);
+    dispatch = spyOn(store, 'dispatch');
+  });
+
+  it('should load once while any component holds the same params', () => {
+    const params = { platform: 'github' };
+    const releaseFirst = ensureLoaded(store, ScanActions, { params });
+    const releaseSecond = ensureLoaded(store, ScanActions, { params });
+    ensureLoaded(store, ScanActions, { params: { platform: 'gitlab' } });
+
+    releaseFirst();
+    releaseFirst();
+    ensureLoaded(store, ScanActions, { params });
+    releaseSecond();
+
+    expect(dispatch.calls.allArgs()).toEqual([
+      [ScanActions.load({ params })],
+      [ScanActions.load({ params: { platform: 'gitlab' } })],
+    ]);
+  });
+
+  it('should load again after every holder released the load', () => {
+    const release = ensureLoaded(store, ScanActions);
+    release();
+    ensureLoaded(store, ScanActions);
+
+    expect(dispatch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should release when the destroyRef is destroyed', () => {
+    const injector = createEnvironmentInjector(
+      [],
+      TestBed.inject(EnvironmentInjector),
+    );
+    const release = ensureLoaded(store, ScanActions, {
+      destroyRef: injector.get(DestroyRef),
+    });
+    injector.destroy();
+    ensureLoaded(store, ScanActions);
+    release();
+    ensureLoaded(store, ScanActions);
+
+    expect(dispatch).toHaveBeenCalledTimes(2);
+  });
+});
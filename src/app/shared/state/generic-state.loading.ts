@@ -0,0 +1,50 @@
+import { DestroyRef } from '@angular/core';
+import { Store } from '@ngrx/store';
+
+import { LoadActionsGroup, serializeParams } from './generic-state.actions';
+
+/** ===== Shared Load Types ===== */
+
+export interface EnsureLoadedOptions<TParams> {
+  params?: TParams;
+  // Releases automatically when the component is destroyed
+  destroyRef?: DestroyRef;
+}
+
+/** ===== Shared Load Helpers ===== */
+
+// Holders per store, keyed by load action type (which names the feature) and params
+const holders = new WeakMap<Store, Map<string, number>>();
+
+/**
+ * Dispatches load for the given params unless another component already holds that
+ * load, and keeps holding it until the returned release function is called. Once every
+ * holder has released it, the next call dispatches load again, and createLoadEffect's
+ * cache check decides whether that reaches the service.
+ */
+export function ensureLoaded<TParams>(
+  store: Store,
+  actions: Pick<LoadActionsGroup<unknown, TParams>, 'load'>,
+  options: EnsureLoadedOptions<TParams> = {},
+): () => void {
+  const { params, destroyRef } = options;
+  const key = `${actions.load.type} ${serializeParams(params)}`;
+  if (!holders.has(store)) holders.set(store, new Map());
+  const counts = holders.get(store)!;
+
+  const count = counts.get(key) ?? 0;
+  counts.set(key, count + 1);
+  if (count === 0) store.dispatch(actions.load({ params }));
+
+  let released = false;
+  const release = () => {
+    if (released) return;
+    released = true;
+    unregister?.();
+    const remaining = (counts.get(key) ?? 1) - 1;
+    if (remaining > 0) counts.set(key, remaining);
+    else counts.delete(key);
+  };
+  const unregister = destroyRef?.onDestroy(release);
+  return release;
+}
@@ -0,0 +1,228 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { EntityState } from '@ngrx/entity';
+import { Action } from '@ngrx/store';
+
+/** ===== Models ===== */
+
+export type EntityId = number | string;
+
+export type EntityOf<TData> = TData extends readonly (infer E)[] ? E : TData;
+
+export type OperationKind = 'load' | 'add' | 'update' | 'delete';
+
+/** Progress of an operation the effects are retrying, e.g. "retrying (2/5)". */
+export interface RetryStatus {
+  operation: OperationKind;
+  // The attempt about to run, counting the first request as attempt 1
+  attempt: number;
+  maxAttempts: number;
+}
+
+/** Background reloads run by createPollingEffect between startPolling and stopPolling. */
+export interface PollingStatus {
+  // paused while the tab is hidden or the browser is offline
+  status: 'active' | 'paused' | 'stopped';
+  intervalMs: number;
+  // Consecutive failed polls; each one doubles the delay before the next
+  failures: number;
+  // Time of the latest successful load since polling started
+  lastUpdatedAt: number | null;
+}
+
+export type StreamConnectionStatus = 'connecting' | 'open' | 'closed' | 'error';
+
+/** Live feed connection kept by createStreamEffect between connect and disconnect. */
+export interface StreamStatus {
+  status: StreamConnectionStatus;
+  // Why the connection was lost when status is 'error'
+  error: StateError | null;
+  // Reconnects since the connection was last open
+  attempt: number;
+}
+
+/** Failure recorded on a slice, built from the HTTP error by the effect helpers. */
+export interface StateError {
+  message: string;
+  // Machine-readable code from the response body, e.g. "SCAN_LIMIT_REACHED"
+  code: string | null;
+  // HTTP status; 0 for network failures, null for non-HTTP errors
+  status: number | null;
+  // Validation messages keyed by form field name
+  fieldErrors: Record<string, string[]>;
+  retryable: boolean;
+  timestamp: number;
+  // The action whose request failed
+  action: Action | null;
+}
+
+/** A value of a response that does not match its schema. */
+export interface ValidationIssue {
+  // Location in the response, e.g. ['items', 3, 'severity']; empty for the response itself
+  path: (string | number)[];
+  message: string;
+}
+
+/** An item of addMany/updateMany/deleteMany that did not go through. */
+export interface BulkFailure {
+  // Position in the request
+  index: number;
+  // null for added items
+  id: EntityId | null;
+  error: StateError;
+}
+
+/** Outcome of the latest bulk operation on a slice. */
+export interface BulkResult {
+  operation: Exclude<OperationKind, 'load'>;
+  succeeded: number;
+  failed: BulkFailure[];
+}
+
+// TParams types lastParams, the params of the last successful load
+export interface OperationState<TParams = unknown> {
+  /** Most recent failure of any operation on this slice. */
+  error: StateError | null;
+  isLoading: boolean;
+  isAdding: boolean;
+  isUpdating: boolean;
+  isDeleting: boolean;
+  addError: StateError | null;
+  updateError: StateError | null;
+  deleteError: StateError | null;
+  // Load cache metadata, maintained from loadSuccess
+  isRefreshing: boolean;
+  lastLoadedAt: number | null;
+  lastParams: TParams | null;
+  cacheKey: string | null;
+  retry: RetryStatus | null;
+  polling: PollingStatus | null;
+  stream: StreamStatus | null;
+  bulkResult: BulkResult | null;
+  // Per-entity progress of update and delete, keyed by entity id
+  updating: Record<string, boolean>;
+  deleting: Record<string, boolean>;
+  entityErrors: Record<string, StateError>;
+}
+
+export interface DefaultState<
+  T,
+  TParams = unknown,
+> extends OperationState<TParams> {
+  data: T | null;
+}
+
+/** Entities as they were before an optimistic change (null when the entity did not exist). */
+export type EntitySnapshot<T> = { id: EntityId; entity: T | null }[];
+
+/** Normalized slice used when the reducer is configured with `entity` options. */
+export interface EntityCollectionState<T, TParams = unknown>
+  extends OperationState<TParams>, EntityState<T> {
+  loaded: boolean;
+  // Pending optimistic changes keyed by the correlationId of the originating action
+  snapshots: Record<string, EntitySnapshot<T>>;
+}
+
+export type SliceState<T = unknown> =
+  DefaultState<T> | EntityCollectionState<unknown>;
+
+/** The undoable part of a slice: `data`, or `ids` and `entities` in entity mode. */
+export type HistorySnapshot =
+  | Pick<DefaultState<unknown>, 'data'>
+  | Pick<EntityCollectionState<unknown>, 'ids' | 'entities'>;
+
+/** One entity changed by undo or redo (null when it did not exist on that side). */
+export interface HistoryChange<T = any> {
+  id: EntityId;
+  before: T | null;
+  after: T | null;
+}
+
+export interface HistoryState {
+  past: HistorySnapshot[];
+  future: HistorySnapshot[];
+  // Slice contents before each in-flight optimistic change, keyed by correlationId
+  pending: Record<string, HistorySnapshot>;
+  // Entities changed by the latest undo or redo, used for compensating requests
+  lastRestore: { correlationId: string; changes: HistoryChange[] } | null;
+  // Local ids of entities brought back by undo/redo, keyed by the correlationId of their compensating add
+  recreated: Record<string, EntityId>;
+}
+
+export function createStateError(
+  message: string,
+  details: Partial<Omit<StateError, 'message'>> = {},
+): StateError {
+  return {
+    message,
+    code: null,
+    status: null,
+    fieldErrors: {},
+    retryable: false,
+    timestamp: Date.now(),
+    action: null,
+    ...details,
+  };
+}
+
+function createOperationState<TParams>(): OperationState<TParams> {
+  return {
+    error: null,
+    isLoading: false,
+    isAdding: false,
+    isUpdating: false,
+    isDeleting: false,
+    addError: null,
+    updateError: null,
+    deleteError: null,
+    isRefreshing: false,
+    lastLoadedAt: null,
+    lastParams: null,
+    cacheKey: null,
+    retry: null,
+    polling: null,
+    stream: null,
+    bulkResult: null,
+    updating: {},
+    deleting: {},
+    entityErrors: {},
+  };
+}
+
+export function createDefaultState<T, TParams = unknown>(
+  data: T | null = null,
+): DefaultState<T, TParams> {
+  return { data, ...createOperationState<TParams>() };
+}
+
+export function createEntityCollectionState<
+  T,
+  TParams = unknown,
+>(): EntityCollectionState<T, TParams> {
+  return {
+    ids: [],
+    entities: {},
+    loaded: false,
+    snapshots: {},
+    ...createOperationState<TParams>(),
+  };
+}
+
+export function createHistoryState(): HistoryState {
+  return {
+    past: [],
+    future: [],
+    pending: {},
+    lastRestore: null,
+    recreated: {},
+  };
+}
+
+export function isEntityCollection<T>(
+  state: DefaultState<unknown> | EntityCollectionState<T>,
+): state is EntityCollectionState<T> {
+  return 'ids' in state && 'entities' in state;
+}
+
+export function isSliceLoaded(state: SliceState): boolean {
+  return isEntityCollection(state) ? state.loaded : state.data !== null;
+}
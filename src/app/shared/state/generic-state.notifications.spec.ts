@@ -0,0 +1,131 @@
+import { TestBed } from '@angular/core/testing';
+import {
+  MatSnackBar,
+  MatSnackBarRef,
+  TextOnlySnackBar,
+} from '@angular/material/snack-bar';
+import { Actions } from '@ngrx/effects';
+import { Action } from '@ngrx/store';
+import { Subject } from 'rxjs';
+
+import {
+  createCrudActions,
+  createHistoryActions,
+} from './generic-state.actions';
+import { createStateError } from './generic-state.models';
+import {
+  createNotificationEffect,
+  MatSnackBarNotificationService,
+  NotificationService,
+} from './generic-state.notifications';
+import { FakeNotificationService } from './testing';
+
+describe('createNotificationEffect', () => {
+  const ScanActions = createCrudActions<string[]>('Scan');
+  const HistoryActions = createHistoryActions('Scan');
+
+  let source: Subject<Action>;
+  let notifications: FakeNotificationService;
+  let emitted: Action[];
+
+  beforeEach(() => {
+    source = new Subject<Action>();
+    notifications = new FakeNotificationService();
+    emitted = [];
+    createNotificationEffect(new Actions(source), ScanActions, notifications, {
+      undo: () => HistoryActions.undo({ correlationId: 'undo' }),
+    }).subscribe((action) => emitted.push(action));
+  });
+
+  it('should show success messages and skip successes without one', () => {
+    source.next(ScanActions.loadSuccess({ data: [], message: 'Scans loaded' }));
+    source.next(ScanActions.addSuccess({ item: 'api' }));
+
+    expect(notifications.shown).toEqual([
+      { message: 'Scans loaded', severity: 'success', actionLabel: undefined },
+    ]);
+  });
+
+  it('should dispatch the undo action from update and delete successes', () => {
+    source.next(ScanActions.deleteSuccess({ id: 1, message: 'Scan deleted' }));
+    expect(notifications.shown[0].actionLabel).toBe('Undo');
+
+    notifications.clickAction();
+
+    expect(emitted).toEqual([HistoryActions.undo({ correlationId: 'undo' })]);
+  });
+
+  it('should retry the original action of retryable failures', () => {
+    const load = ScanActions.load({ params: { page: 2 } });
+    source.next(
+      ScanActions.loadFailure({
+        error: createStateError('Scanner offline', {
+          status: 503,
+          retryable: true,
+          action: load,
+        }),
+      }),
+    );
+    source.next(
+      ScanActions.addFailure({
+        error: createStateError('Invalid target', { status: 400 }),
+      }),
+    );
+
+    expect(notifications.shown.map((shown) => shown.actionLabel)).toEqual([
+      'Retry',
+      undefined,
+    ]);
+    expect(notifications.shown[0].severity).toBe('error');
+
+    notifications.clickAction(0);
+    expect(emitted).toEqual([load]);
+  });
+
+  it('should show repeated errors once per dedupe window', () => {
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(Date.UTC(2024, 0, 1)));
+    const failure = ScanActions.loadFailure({
+      error: createStateError('Scanner offline'),
+    });
+
+    source.next(failure);
+    source.next(failure);
+    jasmine.clock().tick(5000);
+    source.next(failure);
+    jasmine.clock().uninstall();
+
+    expect(notifications.shown.length).toBe(2);
+  });
+});
+
+describe('MatSnackBarNotificationService', () => {
+  it('should be the default NotificationService and style by severity', () => {
+    const snackBar = jasmine.createSpyObj<MatSnackBar>('MatSnackBar', ['open']);
+    snackBar.open.and.returnValue(
+      jasmine.createSpyObj<MatSnackBarRef<TextOnlySnackBar>>('MatSnackBarRef', {
+        onAction: new Subject<void>(),
+      }),
+    );
+    TestBed.configureTestingModule({
+      providers: [{ provide: MatSnackBar, useValue: snackBar }],
+    });
+
+    const service = TestBed.inject(NotificationService);
+    service.show({
+      message: 'Scan failed',
+      severity: 'error',
+      actionLabel: 'Retry',
+    });
+
+    expect(service).toBeInstanceOf(MatSnackBarNotificationService);
+    expect(snackBar.open).toHaveBeenCalledWith(
+      'Scan failed',
+      'Retry',
+      jasmine.objectContaining({
+        duration: 8000,
+        panelClass: 'notification-error',
+      }),
+    );
+  });
+});
@@ -0,0 +1,148 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { inject, Injectable } from '@angular/core';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { Actions } from '@ngrx/effects';
+import { Action } from '@ngrx/store';
+import { EMPTY, filter, map, mergeMap, Observable } from 'rxjs';
+
+import { CrudActionsGroup } from './generic-state.actions';
+import { StateError } from './generic-state.models';
+import { isSyncedAction } from './generic-state.sync';
+
+/** ===== Notification Types ===== */
+
+export type NotificationSeverity = 'success' | 'info' | 'warning' | 'error';
+
+export interface Notification {
+  message: string;
+  severity: NotificationSeverity;
+  // Label of the action button, e.g. "Undo" or "Retry"
+  actionLabel?: string;
+  // Milliseconds before the notification closes; defaults per severity
+  duration?: number;
+}
+
+export const DEFAULT_NOTIFICATION_DURATIONS: Record<
+  NotificationSeverity,
+  number
+> = {
+  success: 3000,
+  info: 4000,
+  warning: 6000,
+  error: 8000,
+};
+
+/**
+ * Shows notifications to the user. The returned observable emits when the action
+ * button is clicked. Provide another implementation to replace the snackbar.
+ */
+@Injectable({
+  providedIn: 'root',
+  useFactory: () => inject(MatSnackBarNotificationService),
+})
+export abstract class NotificationService {
+  abstract show(notification: Notification): Observable<void>;
+}
+
+@Injectable({ providedIn: 'root' })
+export class MatSnackBarNotificationService extends NotificationService {
+  private readonly snackBar = inject(MatSnackBar);
+
+  show(notification: Notification): Observable<void> {
+    const { message, severity, actionLabel, duration } = notification;
+    return this.snackBar
+      .open(message, actionLabel, {
+        duration: duration ?? DEFAULT_NOTIFICATION_DURATIONS[severity],
+        panelClass: `notification-${severity}`,
+        politeness: severity === 'error' ? 'assertive' : 'polite',
+      })
+      .onAction();
+  }
+}
+
+/** ===== Notification Effect ===== */
+
+export interface NotificationEffectConfig {
+  // Offered as "Undo" after update and delete successes, e.g. () => HistoryActions.undo({})
+  undo?: () => Action;
+  // Identical errors within this many milliseconds are shown once; defaults to 5000
+  dedupeMs?: number;
+}
+
+type MessageAction = Action & { message?: string };
+type FailureAction = Action & { error: StateError };
+
+/**
+ * Shows the successMessage/errorMessage the effect helpers put on the settle
+ * actions. Emits the original action when Retry is clicked and the undo action
+ * when Undo is clicked.
+ */
+export function createNotificationEffect(
+  actions$: Actions,
+  actions: Partial<CrudActionsGroup<any, any, any, any>>,
+  notifications: NotificationService,
+  config: NotificationEffectConfig = {},
+): Observable<Action> {
+  const { undo, dedupeMs = 5000 } = config;
+  const types = (...keys: (keyof CrudActionsGroup<any>)[]) =>
+    new Set(keys.map((key) => actions[key]?.type).filter(Boolean));
+  const successTypes = types(
+    'loadSuccess',
+    'addSuccess',
+    'updateSuccess',
+    'deleteSuccess',
+  );
+  const undoableTypes = types('updateSuccess', 'deleteSuccess');
+  const failureTypes = types(
+    'loadFailure',
+    'addFailure',
+    'updateFailure',
+    'deleteFailure',
+  );
+  const lastShown = new Map<string, number>();
+
+  // Drops an error shown less than dedupeMs ago
+  const isDuplicate = (error: StateError) => {
+    const key = `${error.code}:${error.message}`;
+    const now = Date.now();
+    const duplicate = now - (lastShown.get(key) ?? -Infinity) < dedupeMs;
+    if (!duplicate) lastShown.set(key, now);
+    return duplicate;
+  };
+
+  const notifySuccess = (action: MessageAction): Observable<Action> => {
+    if (!action.message) return EMPTY;
+    const canUndo = !!undo && undoableTypes.has(action.type);
+    return notifications
+      .show({
+        message: action.message,
+        severity: 'success',
+        actionLabel: canUndo ? 'Undo' : undefined,
+      })
+      .pipe(map(() => undo!()));
+  };
+
+  const notifyFailure = ({ error }: FailureAction): Observable<Action> => {
+    if (isDuplicate(error)) return EMPTY;
+    const retry = error.retryable ? error.action : null;
+    return notifications
+      .show({
+        message: error.message,
+        severity: 'error',
+        actionLabel: retry ? 'Retry' : undefined,
+      })
+      .pipe(map(() => retry!));
+  };
+
+  return actions$.pipe(
+    // Actions replayed from another tab were already announced there
+    filter((action) => !isSyncedAction(action)),
+    mergeMap((action) => {
+      if (successTypes.has(action.type)) return notifySuccess(action);
+      if (failureTypes.has(action.type)) {
+        return notifyFailure(action as FailureAction);
+      }
+      return EMPTY;
+    }),
+  );
+}
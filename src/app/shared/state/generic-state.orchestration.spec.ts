@@ -0,0 +1,227 @@
+import { TestBed } from '@angular/core/testing';
+import { Actions } from '@ngrx/effects';
+import { provideStore, Store } from '@ngrx/store';
+import { merge, Observable, Subject, Subscription } from 'rxjs';
+
+import {
+  createLoadActions,
+  createLoadGraphActions,
+} from './generic-state.actions';
+import { createLoadEffect } from './generic-state.effects';
+import { createDefaultState, DefaultState } from './generic-state.models';
+import {
+  createLoadGraphEffect,
+  createLoadGraphSelector,
+  LoadGraph,
+  LoadGraphStatus,
+} from './generic-state.orchestration';
+import { createGenericReducer } from './generic-state.reducer';
+import { createGenericSelectors } from './generic-state.selectors';
+
+interface Platform {
+  id: string;
+}
+
+// One feature per slice, with a load service answering through a Subject per call
+function createFeature<T>(name: string) {
+  type State = Record<string, DefaultState<T>>;
+  const actions = createLoadActions<T>(name);
+  const selectors = createGenericSelectors<State, T>(name, name);
+  const responses: Subject<T>[] = [];
+  const service = jasmine.createSpy(name).and.callFake(() => {
+    responses.push(new Subject<T>());
+    return responses[responses.length - 1];
+  });
+  const respond = (data: T) => {
+    const response = responses.shift()!;
+    response.next(data);
+    response.complete();
+  };
+  const fail = () => responses.shift()!.error(new Error(`${name} failed`));
+
+  return {
+    actions,
+    selectors,
+    service,
+    respond,
+    fail,
+    reducer: createGenericReducer<State, T>({
+      actions,
+      stateKey: name,
+      initialState: { [name]: createDefaultState<T>() },
+    }),
+    effect: (actions$: Actions, store: Store) =>
+      createLoadEffect(actions$, actions, service, {
+        store,
+        selector: selectors.selectState,
+      }),
+  };
+}
+
+describe('load graphs', () => {
+  const DashboardActions = createLoadGraphActions<{ org: string }>('Dashboard');
+  let platforms: ReturnType<typeof createFeature<Platform[]>>;
+  let vulnerabilities: ReturnType<typeof createFeature<string[]>>;
+  let teams: ReturnType<typeof createFeature<string[]>>;
+  let graph: LoadGraph<{ org: string }>;
+  let store: Store;
+  let status: LoadGraphStatus;
+  let subscription: Subscription;
+
+  beforeEach(() => {
+    platforms = createFeature<Platform[]>('platforms');
+    vulnerabilities = createFeature<string[]>('vulnerabilities');
+    teams = createFeature<string[]>('teams');
+    graph = {
+      platforms,
+      vulnerabilities: {
+        ...vulnerabilities,
+        after: ['platforms'],
+        params: (data, params) => ({
+          org: params?.org,
+          platforms: (data['platforms'] as Platform[]).map(({ id }) => id),
+        }),
+      },
+      teams,
+    };
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideStore({
+          platforms: platforms.reducer,
+          vulnerabilities: vulnerabilities.reducer,
+          teams: teams.reducer,
+        }),
+      ],
+    });
+    store = TestBed.inject(Store);
+    const actions$ = TestBed.inject(Actions);
+    // Dispatches what the effects emit, as EffectsModule would
+    subscription = merge(
+      platforms.effect(actions$, store),
+      vulnerabilities.effect(actions$, store),
+      teams.effect(actions$, store),
+      createLoadGraphEffect(actions$, store, DashboardActions, graph),
+    ).subscribe((action) => store.dispatch(action));
+    subscription.add(
+      store
+        .select(createLoadGraphSelector(graph))
+        .subscribe((value) => (status = value)),
+    );
+  });
+
+  afterEach(() => subscription.unsubscribe());
+
+  it('should load dependent steps with params from the data they depend on', () => {
+    store.dispatch(DashboardActions.loadAll({ params: { org: 'acme' } }));
+
+    expect(platforms.service).toHaveBeenCalledTimes(1);
+    expect(teams.service).toHaveBeenCalledTimes(1);
+    expect(vulnerabilities.service).not.toHaveBeenCalled();
+    expect(status).toEqual(
+      jasmine.objectContaining({
+        status: 'loading',
+        completed: 0,
+        total: 3,
+        steps: {
+          platforms: 'loading',
+          vulnerabilities: 'pending',
+          teams: 'loading',
+        },
+      }),
+    );
+
+    platforms.respond([{ id: 'github' }, { id: 'gitlab' }]);
+    teams.respond(['core']);
+    expect(vulnerabilities.service).toHaveBeenCalledOnceWith({
+      org: 'acme',
+      platforms: ['github', 'gitlab'],
+    });
+    expect(status.progress).toBeCloseTo(2 / 3);
+
+    vulnerabilities.respond(['CVE-1']);
+    expect(status).toEqual(
+      jasmine.objectContaining({
+        status: 'loaded',
+        isLoading: false,
+        completed: 3,
+        progress: 1,
+      }),
+    );
+  });
+
+  it('should take data of cached steps from the store', () => {
+    store.dispatch(DashboardActions.loadAll({ params: { org: 'acme' } }));
+    platforms.respond([{ id: 'github' }]);
+    teams.respond([]);
+    vulnerabilities.respond([]);
+
+    store.dispatch(DashboardActions.loadAll({ params: { org: 'initech' } }));
+
+    expect(platforms.service).toHaveBeenCalledTimes(1);
+    expect(vulnerabilities.service.calls.allArgs()).toEqual([
+      [{ org: 'acme', platforms: ['github'] }],
+      [{ org: 'initech', platforms: ['github'] }],
+    ]);
+  });
+
+  it('should load its own params again after another load cancels them', () => {
+    store.dispatch(DashboardActions.loadAll({ params: { org: 'acme' } }));
+    teams.respond([]);
+    store.dispatch(platforms.actions.load({ params: { archived: true } }));
+    // The graph's request was cancelled, so this response goes nowhere
+    platforms.respond([{ id: 'github' }]);
+    platforms.respond([{ id: 'legacy' }]);
+
+    expect(vulnerabilities.service).not.toHaveBeenCalled();
+    expect(platforms.service.calls.allArgs()).toEqual([
+      [undefined],
+      [{ archived: true }],
+      [undefined],
+    ]);
+
+    platforms.respond([{ id: 'github' }]);
+    expect(vulnerabilities.service).toHaveBeenCalledOnceWith({
+      org: 'acme',
+      platforms: ['github'],
+    });
+  });
+
+  it('should skip the steps after a failed one', () => {
+    store.dispatch(DashboardActions.loadAll({}));
+    platforms.fail();
+    teams.respond(['core']);
+
+    expect(vulnerabilities.service).not.toHaveBeenCalled();
+    expect(status).toEqual(
+      jasmine.objectContaining({
+        status: 'error',
+        error: jasmine.objectContaining({ message: 'platforms failed' }),
+        steps: {
+          platforms: 'failed',
+          vulnerabilities: 'skipped',
+          teams: 'loaded',
+        },
+      }),
+    );
+  });
+
+  it('should reject steps that depend on each other', () => {
+    const cyclic: LoadGraph = {
+      platforms: { ...platforms, after: ['teams'] },
+      teams: { ...teams, after: ['platforms'] },
+    };
+
+    expect(() => createLoadGraphSelector(cyclic)).toThrowError(
+      /depend on each other/,
+    );
+    expect(() =>
+      createLoadGraphEffect(
+        new Actions(new Observable()),
+        store,
+        DashboardActions,
+        { teams: { ...teams, after: ['users'] } },
+      ),
+    ).toThrowError('Load step "teams" depends on unknown step "users"');
+  });
+});
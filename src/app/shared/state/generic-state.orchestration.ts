@@ -0,0 +1,237 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Actions, ofType } from '@ngrx/effects';
+import { Action, createSelector, Store } from '@ngrx/store';
+import { map, merge, Observable, switchMap, take } from 'rxjs';
+
+import {
+  LoadActionsGroup,
+  LoadGraphActionsGroup,
+  serializeParams,
+} from './generic-state.actions';
+import { isSliceLoaded, SliceState, StateError } from './generic-state.models';
+
+/** ===== Load Graph Config Types ===== */
+
+export interface LoadGraphStep<TParams = any> {
+  actions: Pick<
+    LoadActionsGroup<any>,
+    'load' | 'loadSuccess' | 'loadFailure' | 'loadCancelled'
+  >;
+  // From createGenericSelectors: the slice for the combined status, its data for later steps
+  selectors: {
+    selectState: (state: any) => SliceState;
+    selectData: (state: any) => unknown;
+  };
+  // Steps whose data this one needs; it loads once all of them have loaded
+  after?: string[];
+  // Load params from the data of the steps in `after` and the loadAll params
+  params?: (data: Record<string, any>, params: TParams | undefined) => unknown;
+}
+
+// Steps by name; steps without `after` load in parallel as soon as loadAll is dispatched
+export type LoadGraph<TParams = any> = Record<string, LoadGraphStep<TParams>>;
+
+// 'skipped' steps wait for a step that failed
+export type LoadStepStatus =
+  'pending' | 'loading' | 'loaded' | 'failed' | 'skipped';
+
+export interface LoadGraphStatus {
+  status: 'idle' | 'loading' | 'loaded' | 'error';
+  isLoading: boolean;
+  // Error of the first failed step
+  error: StateError | null;
+  completed: number;
+  total: number;
+  // Share of loaded steps, from 0 to 1
+  progress: number;
+  steps: Record<string, LoadStepStatus>;
+}
+
+type StepLoad = ReturnType<LoadGraphStep['actions']['load']>;
+
+/** ===== Load Graph Helpers ===== */
+
+// Step names with every step after the ones it depends on
+function orderSteps(graph: LoadGraph): string[] {
+  const ordered: string[] = [];
+  const visiting = new Set<string>();
+  const visit = (name: string, from?: string) => {
+    if (ordered.includes(name)) return;
+    if (!graph[name]) {
+      throw new Error(`Load step "${from}" depends on unknown step "${name}"`);
+    }
+    if (visiting.has(name)) {
+      throw new Error(`Load steps depend on each other through "${name}"`);
+    }
+    visiting.add(name);
+    (graph[name].after ?? []).forEach((dependency) => visit(dependency, name));
+    visiting.delete(name);
+    ordered.push(name);
+  };
+  Object.keys(graph).forEach((name) => visit(name));
+  return ordered;
+}
+
+function stepStatus(
+  slice: SliceState,
+  dependencies: LoadStepStatus[],
+): LoadStepStatus {
+  if (slice.isLoading || slice.isRefreshing) return 'loading';
+  if (
+    dependencies.some((status) => status === 'failed' || status === 'skipped')
+  ) {
+    return 'skipped';
+  }
+  if (dependencies.some((status) => status !== 'loaded')) return 'pending';
+  if (slice.error) return 'failed';
+  return isSliceLoaded(slice) ? 'loaded' : 'pending';
+}
+
+/**
+ * Runs a load graph on loadAll: dispatches the load of every step whose dependencies
+ * have loaded, with params built from their data, until every step has settled. Steps
+ * after a failed one are not loaded. A new loadAll starts the graph over. When another
+ * load of a step's feature cancels the step's request, the step loads again once that
+ * load has settled.
+ */
+export function createLoadGraphEffect<TParams = any>(
+  actions$: Actions,
+  store: Store,
+  actions: LoadGraphActionsGroup<TParams>,
+  graph: LoadGraph<TParams>,
+): Observable<Action> {
+  const names = orderSteps(graph);
+  const events$ = merge(
+    ...names.map((name) => {
+      const { load, loadSuccess, loadFailure, loadCancelled } =
+        graph[name].actions;
+      return actions$.pipe(
+        ofType(load, loadSuccess, loadFailure, loadCancelled),
+        map((action: Action) => ({ name, action })),
+      );
+    }),
+  );
+
+  return actions$.pipe(
+    ofType(actions.loadAll),
+    switchMap(
+      ({ params, forceReload }) =>
+        new Observable<Action>((subscriber) => {
+          const data: Record<string, unknown> = {};
+          const started = new Set<string>();
+          // The load of each unsettled step, and whether a load with other params cancelled it
+          const inFlight = new Map<
+            string,
+            { load: StepLoad; superseded: boolean }
+          >();
+
+          const dispatchLoad = (name: string, load: StepLoad) => {
+            inFlight.set(name, { load, superseded: false });
+            subscriber.next(load);
+          };
+
+          const startReady = () =>
+            names.forEach((name) => {
+              const step = graph[name];
+              const after = step.after ?? [];
+              if (started.has(name) || !after.every((dep) => dep in data)) {
+                return;
+              }
+              started.add(name);
+              dispatchLoad(
+                name,
+                step.actions.load({
+                  params: step.params?.(data, params),
+                  forceReload,
+                }),
+              );
+            });
+
+          // Dispatched loads settle synchronously when served from the cache
+          const subscription = events$.subscribe(({ name, action }) => {
+            const request = inFlight.get(name);
+            if (!request || action === request.load) return;
+            const { load, loadFailure } = graph[name].actions;
+            if (action.type === load.type) {
+              request.superseded ||=
+                serializeParams((action as StepLoad).params) !==
+                serializeParams(request.load.params);
+              return;
+            }
+            if (request.superseded) {
+              // The load that cancelled the step's own has settled; load the step's params again
+              const { params, forceReload } = request.load;
+              dispatchLoad(name, load({ params, forceReload }));
+              return;
+            }
+            // Settle actions of other loads, e.g. polls, carry a different cacheKey
+            const origin =
+              action.type === loadFailure.type
+                ? (action as ReturnType<typeof loadFailure>).error.action
+                : action;
+            const cacheKey = (origin as { cacheKey?: string | null } | null)
+              ?.cacheKey;
+            if (cacheKey !== undefined && cacheKey !== request.load.cacheKey) {
+              return;
+            }
+            inFlight.delete(name);
+            if (action.type !== loadFailure.type) {
+              // Cached loads carry no data, so read it from the store either way
+              store
+                .select(graph[name].selectors.selectData)
+                .pipe(take(1))
+                .subscribe((value) => (data[name] = value));
+              startReady();
+            }
+            if (inFlight.size === 0) subscriber.complete();
+          });
+          startReady();
+          if (inFlight.size === 0) subscriber.complete();
+
+          return () => subscription.unsubscribe();
+        }),
+    ),
+  );
+}
+
+/** Combined status of the steps of a load graph, e.g. for a page-level spinner and progress bar. */
+export function createLoadGraphSelector(graph: LoadGraph) {
+  const names = orderSteps(graph);
+  const selectSlices = createSelector(
+    Object.fromEntries(
+      names.map((name) => [name, graph[name].selectors.selectState]),
+    ),
+  );
+
+  return createSelector(
+    selectSlices,
+    (slices: Record<string, SliceState>): LoadGraphStatus => {
+      const steps: Record<string, LoadStepStatus> = {};
+      names.forEach((name) => {
+        const after = graph[name].after ?? [];
+        steps[name] = stepStatus(
+          slices[name],
+          after.map((dependency) => steps[dependency]),
+        );
+      });
+
+      const statuses = names.map((name) => steps[name]);
+      const failed = names.find((name) => steps[name] === 'failed');
+      const completed = statuses.filter((status) => status === 'loaded').length;
+      const isLoading = statuses.includes('loading');
+      let status: LoadGraphStatus['status'] = 'idle';
+      if (failed) status = 'error';
+      else if (isLoading) status = 'loading';
+      else if (completed === names.length) status = 'loaded';
+      return {
+        status,
+        isLoading,
+        error: failed ? slices[failed].error : null,
+        completed,
+        total: names.length,
+        progress: names.length ? completed / names.length : 1,
+        steps,
+      };
+    },
+  );
+}
@@ -0,0 +1,188 @@
+import { ActionReducer } from '@ngrx/store';
+import { firstValueFrom } from 'rxjs';
+
+import { createCrudActions, hydrate } from './generic-state.actions';
+import {
+  createDefaultState,
+  createStateError,
+  DefaultState,
+} from './generic-state.models';
+import {
+  createHydrateEffect,
+  createPersistenceMetaReducer,
+  PersistenceStorage,
+} from './generic-state.persistence';
+import { createGenericReducer } from './generic-state.reducer';
+
+interface Product {
+  id: number;
+  name: string;
+}
+
+interface CatalogState {
+  products: DefaultState<Product[]>;
+  selectedProduct: number | null;
+  currentPageNumber: number;
+}
+
+function createMemoryStorage(
+  items: Record<string, unknown> = {},
+): PersistenceStorage & { items: Record<string, unknown> } {
+  return {
+    items,
+    getItem: async (key) => items[key] ?? null,
+    setItem: async (key, value) => {
+      items[key] = value;
+    },
+    removeItem: async (key) => {
+      delete items[key];
+    },
+  };
+}
+
+describe('createPersistenceMetaReducer', () => {
+  const ProductActions = createCrudActions<Product[]>('Catalog');
+  const data = [{ id: 1, name: 'Scanner' }];
+  let storage: ReturnType<typeof createMemoryStorage>;
+  let reducer: ActionReducer<CatalogState>;
+
+  beforeEach(() => {
+    jasmine.clock().install();
+    storage = createMemoryStorage();
+    reducer = createPersistenceMetaReducer<CatalogState>({
+      key: 'catalog',
+      keys: ['products', 'currentPageNumber'],
+      storage,
+      debounceMs: 100,
+    })(
+      createGenericReducer<CatalogState, Product[]>({
+        actions: ProductActions,
+        initialState: {
+          products: createDefaultState<Product[]>(),
+          selectedProduct: null,
+          currentPageNumber: 1,
+        },
+        stateKey: 'products',
+      }),
+    );
+  });
+
+  afterEach(() => jasmine.clock().uninstall());
+
+  it('should not write before the state is hydrated', () => {
+    reducer(reducer(undefined, { type: 'init' }), ProductActions.load({}));
+    jasmine.clock().tick(100);
+
+    expect(storage.items).toEqual({});
+  });
+
+  it('should write the configured keys once per burst without transient fields', () => {
+    const hydrated = reducer(
+      undefined,
+      hydrate({ key: 'catalog', state: null }),
+    );
+    const failed = reducer(
+      reducer(hydrated, ProductActions.loadSuccess({ data })),
+      ProductActions.addFailure({ error: createStateError('Offline') }),
+    );
+    expect(failed.products.error?.message).toBe('Offline');
+
+    jasmine.clock().tick(99);
+    expect(storage.items).toEqual({});
+    jasmine.clock().tick(1);
+
+    const saved = storage.items['catalog'] as {
+      version: number;
+      state: Record<string, Record<string, unknown>>;
+    };
+    expect(saved.version).toBe(1);
+    expect(Object.keys(saved.state)).toEqual(['products', 'currentPageNumber']);
+    expect(saved.state['products']['data']).toEqual(data);
+    expect('error' in saved.state['products']).toBeFalse();
+    expect('isLoading' in saved.state['products']).toBeFalse();
+  });
+
+  it('should report failed writes to onError', async () => {
+    const quota = new Error('Quota exceeded');
+    const onError = jasmine.createSpy('onError');
+    const failing = createPersistenceMetaReducer<CatalogState>({
+      key: 'catalog',
+      storage: { ...storage, setItem: () => Promise.reject(quota) },
+      debounceMs: 0,
+      onError,
+    })(reducer);
+
+    failing(
+      failing(undefined, hydrate({ key: 'catalog', state: null })),
+      ProductActions.loadSuccess({ data }),
+    );
+    jasmine.clock().tick(0);
+    await Promise.resolve();
+
+    expect(onError).toHaveBeenCalledOnceWith(quota);
+  });
+
+  it('should merge hydrated slices into the current operation state', () => {
+    const loading = reducer(undefined, ProductActions.load({}));
+    const hydrated = reducer(
+      loading,
+      hydrate({
+        key: 'catalog',
+        state: { products: { data }, currentPageNumber: 3 },
+      }),
+    );
+
+    expect(hydrated.products.data).toEqual(data);
+    expect(hydrated.products.isLoading).toBeTrue();
+    expect(hydrated.currentPageNumber).toBe(3);
+    expect(
+      reducer(
+        loading,
+        hydrate({ key: 'other', state: { currentPageNumber: 9 } }),
+      ).currentPageNumber,
+    ).toBe(1);
+  });
+});
+
+describe('createHydrateEffect', () => {
+  const migrations = {
+    2: (state: { page: number }) => ({ currentPageNumber: state.page }),
+  };
+
+  it('should migrate state saved by older versions', async () => {
+    const storage = createMemoryStorage({
+      catalog: { version: 1, state: { page: 4 } },
+    });
+
+    const action = await firstValueFrom(
+      createHydrateEffect({ key: 'catalog', storage, version: 2, migrations }),
+    );
+
+    expect(action).toEqual(
+      hydrate({ key: 'catalog', state: { currentPageNumber: 4 } }),
+    );
+  });
+
+  it('should discard state it cannot migrate', async () => {
+    const storage = createMemoryStorage({
+      catalog: { version: 1, state: { page: 4 } },
+    });
+
+    const action = await firstValueFrom(
+      createHydrateEffect({ key: 'catalog', storage, version: 3, migrations }),
+    );
+
+    expect(action).toEqual(hydrate({ key: 'catalog', state: null }));
+  });
+
+  it('should start empty when storage cannot be read', async () => {
+    const storage = createMemoryStorage();
+    storage.getItem = () => Promise.reject(new Error('Quota exceeded'));
+
+    const action = await firstValueFrom(
+      createHydrateEffect({ key: 'catalog', storage }),
+    );
+
+    expect(action).toEqual(hydrate({ key: 'catalog', state: null }));
+  });
+});
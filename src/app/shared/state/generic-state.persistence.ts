@@ -0,0 +1,251 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Action, MetaReducer } from '@ngrx/store';
+import { catchError, defer, map, Observable, of } from 'rxjs';
+
+import { hydrate } from './generic-state.actions';
+
+/** ===== Persistence Config Types ===== */
+
+/** Async key/value storage; values are plain JSON-compatible objects. */
+export interface PersistenceStorage {
+  getItem(key: string): Promise<unknown>;
+  setItem(key: string, value: unknown): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export interface PersistenceConfig<TState> {
+  // Storage key of the feature; hydrate actions are matched against it
+  key: string;
+  // Feature state properties to persist; defaults to all of them
+  keys?: readonly (keyof TState)[];
+  // Defaults to localStorageBackend()
+  storage?: PersistenceStorage;
+  // Delay before writing, so bursts of actions cause one write; defaults to 300
+  debounceMs?: number;
+  // Version of the persisted shape; bump it and add a migration when the shape changes
+  version?: number;
+  // migrations[n] upgrades state saved by version n - 1 to version n
+  migrations?: Record<number, (state: any) => any>;
+  // Called when a write fails, e.g. over quota; failed writes are skipped silently by default
+  onError?: (error: unknown) => void;
+}
+
+interface PersistedState {
+  version: number;
+  state: Record<string, unknown>;
+}
+
+/** ===== Storage Backends ===== */
+
+export function localStorageBackend(
+  storage: Storage = localStorage,
+): PersistenceStorage {
+  return {
+    getItem: async (key) => {
+      const value = storage.getItem(key);
+      return value === null ? null : JSON.parse(value);
+    },
+    setItem: async (key, value) => storage.setItem(key, JSON.stringify(value)),
+    removeItem: async (key) => storage.removeItem(key),
+  };
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// For slices too large for localStorage's quota, e.g. cached scan results
+export function indexedDbBackend(
+  database = 'app-state',
+  storeName = 'state',
+): PersistenceStorage {
+  let db: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    if (!db) {
+      const req = indexedDB.open(database, 1);
+      req.onupgradeneeded = () => req.result.createObjectStore(storeName);
+      db = request(req);
+    }
+    return db;
+  };
+  const store = async (mode: IDBTransactionMode) =>
+    (await open()).transaction(storeName, mode).objectStore(storeName);
+
+  return {
+    getItem: async (key) =>
+      (await request((await store('readonly')).get(key))) ?? null,
+    setItem: async (key, value) => {
+      await request((await store('readwrite')).put(value, key));
+    },
+    removeItem: async (key) => {
+      await request((await store('readwrite')).delete(key));
+    },
+  };
+}
+
+/** ===== Persistence Helpers ===== */
+
+// Operation status that is only meaningful while the app is running
+const TRANSIENT_KEYS = [
+  'error',
+  'isLoading',
+  'isAdding',
+  'isUpdating',
+  'isDeleting',
+  'isRefreshing',
+  'addError',
+  'updateError',
+  'deleteError',
+  'retry',
+  'polling',
+  'stream',
+  'bulkResult',
+  'updating',
+  'deleting',
+  'entityErrors',
+  'snapshots',
+];
+
+function isSlice(value: unknown): value is Record<string, unknown> {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    'isLoading' in value &&
+    'error' in value
+  );
+}
+
+function withoutTransientFields(value: unknown): unknown {
+  if (!isSlice(value)) return value;
+  const rest = { ...value };
+  TRANSIENT_KEYS.forEach((key) => delete rest[key]);
+  return rest;
+}
+
+/** The given feature state properties with the transient fields of slices removed. */
+export function pickPersistedState<TState>(
+  state: TState,
+  keys: readonly (keyof TState)[] | undefined,
+): Record<string, unknown> {
+  const picked = keys ?? (Object.keys(state as object) as (keyof TState)[]);
+  return Object.fromEntries(
+    picked.map((key) => [key, withoutTransientFields(state[key])]),
+  );
+}
+
+function hasChanged<TState>(
+  previous: TState,
+  next: TState,
+  keys: readonly (keyof TState)[] | undefined,
+): boolean {
+  const picked = keys ?? (Object.keys(next as object) as (keyof TState)[]);
+  return picked.some((key) => previous[key] !== next[key]);
+}
+
+// Null when the saved state cannot be brought up to the current version
+function migrate(
+  saved: PersistedState,
+  version: number,
+  migrations: Record<number, (state: any) => any>,
+): Record<string, unknown> | null {
+  if (saved.version > version) return null;
+  let state = saved.state;
+  for (let next = saved.version + 1; next <= version; next++) {
+    if (!migrations[next]) return null;
+    state = migrations[next](state);
+  }
+  return state;
+}
+
+/** Merges saved properties into the state; slices keep their current transient fields. */
+export function mergePersistedState<TState>(
+  state: TState,
+  persisted: Record<string, unknown>,
+): TState {
+  const merged: Record<string, unknown> = { ...(state as object) };
+  Object.entries(persisted).forEach(([key, value]) => {
+    if (!(key in merged)) return;
+    merged[key] = isSlice(merged[key])
+      ? { ...merged[key], ...(value as object) }
+      : value;
+  });
+  return merged as TState;
+}
+
+/**
+ * Writes the configured feature state properties to storage after every change
+ * (debounced) and merges the hydrate action for the same key. Nothing is written
+ * before hydration, so early actions cannot overwrite the saved state.
+ */
+export function createPersistenceMetaReducer<TState>(
+  config: PersistenceConfig<TState>,
+): MetaReducer<TState> {
+  const {
+    key,
+    keys,
+    storage = localStorageBackend(),
+    debounceMs = 300,
+    version = 1,
+    onError = () => undefined,
+  } = config;
+  let hydrated = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const persist = (state: TState) => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      const saved: PersistedState = {
+        version,
+        state: pickPersistedState(state, keys),
+      };
+      storage.setItem(key, saved).catch(onError);
+    }, debounceMs);
+  };
+
+  return (reducer) => (state, action) => {
+    if (action.type === hydrate.type) {
+      const { key: target, state: persisted } = action as ReturnType<
+        typeof hydrate
+      >;
+      if (target === key) {
+        hydrated = true;
+        const current = reducer(state, action);
+        return persisted ? mergePersistedState(current, persisted) : current;
+      }
+    }
+
+    const next = reducer(state, action);
+    if (hydrated && state !== undefined && hasChanged(state, next, keys)) {
+      persist(next);
+    }
+    return next;
+  };
+}
+
+/** Reads the saved state once, migrates it and dispatches hydrate. */
+export function createHydrateEffect<TState>(
+  config: PersistenceConfig<TState>,
+): Observable<Action> {
+  const {
+    key,
+    storage = localStorageBackend(),
+    version = 1,
+    migrations = {},
+  } = config;
+
+  return defer(() => storage.getItem(key)).pipe(
+    map((saved) =>
+      hydrate({
+        key,
+        state: saved
+          ? migrate(saved as PersistedState, version, migrations)
+          : null,
+      }),
+    ),
+    // Unreadable or corrupt storage starts from the initial state
+    catchError(() => of(hydrate({ key, state: null }))),
+  );
+}
@@ -0,0 +1,653 @@
+import {
+  actionDropped,
+  createBulkActions,
+  createCrudActions,
+  createHistoryActions,
+  createLoadActions,
+  createPollingActions,
+  HISTORY_CORRELATION_PREFIX,
+  operationRetrying,
+  serializeParams,
+} from './generic-state.actions';
+import {
+  createDefaultState,
+  createEntityCollectionState,
+  createHistoryState,
+  createStateError,
+  DefaultState,
+  EntityCollectionState,
+  HistoryState,
+} from './generic-state.models';
+import {
+  createGenericReducer,
+  createHistoryMetaReducer,
+} from './generic-state.reducer';
+
+interface Product {
+  id: number;
+  name: string;
+}
+
+interface TestState {
+  products: DefaultState<Product[]>;
+  selectedId: number | null;
+}
+
+describe('createGenericReducer', () => {
+  const ProductActions = createCrudActions<Product[], Partial<Product>>(
+    'Product',
+  );
+  const initialState: TestState = {
+    products: createDefaultState<Product[]>([]),
+    selectedId: null,
+  };
+  const reducer = createGenericReducer<TestState, Product[]>({
+    actions: ProductActions,
+    initialState,
+    stateKey: 'products',
+    onAddSuccess: (state, item) => ({
+      products: {
+        ...state.products,
+        data: [...(state.products.data ?? []), item],
+      },
+    }),
+  });
+
+  it('should flag loading and store data on success', () => {
+    const loading = reducer(initialState, ProductActions.load({}));
+    expect(loading.products.isLoading).toBeTrue();
+
+    const data = [{ id: 1, name: 'Scanner' }];
+    const loaded = reducer(loading, ProductActions.loadSuccess({ data }));
+    expect(loaded.products.isLoading).toBeFalse();
+    expect(loaded.products.data).toEqual(data);
+  });
+
+  it('should clear isLoading when a load is cancelled', () => {
+    const loading = reducer(initialState, ProductActions.load({}));
+    const cancelled = reducer(loading, ProductActions.loadCancelled());
+    expect(cancelled.products.isLoading).toBeFalse();
+  });
+
+  it('should track add flags and apply onAddSuccess to the settled state', () => {
+    const adding = reducer(
+      initialState,
+      ProductActions.add({ payload: { name: 'Agent' } }),
+    );
+    expect(adding.products.isAdding).toBeTrue();
+
+    const item = { id: 2, name: 'Agent' };
+    const added = reducer(adding, ProductActions.addSuccess({ item }));
+    expect(added.products.isAdding).toBeFalse();
+    expect(added.products.data).toEqual([item]);
+  });
+
+  it('should record operation-specific errors', () => {
+    const failed = reducer(
+      initialState,
+      ProductActions.deleteFailure({ error: createStateError('Forbidden') }),
+    );
+    expect(failed.products.deleteError?.message).toBe('Forbidden');
+    expect(failed.products.error?.message).toBe('Forbidden');
+    expect(failed.products.addError).toBeNull();
+  });
+
+  it('should track retry progress until the operation settles', () => {
+    const load = ProductActions.load({});
+    const retrying = reducer(
+      reducer(initialState, load),
+      operationRetrying({ action: load, attempt: 2, maxAttempts: 5 }),
+    );
+    expect(retrying.products.retry).toEqual({
+      operation: 'load',
+      attempt: 2,
+      maxAttempts: 5,
+    });
+    expect(
+      reducer(
+        retrying,
+        ProductActions.addFailure({ error: createStateError('Conflict') }),
+      ).products.retry,
+    ).not.toBeNull();
+
+    const failed = reducer(
+      retrying,
+      ProductActions.loadFailure({ error: createStateError('Timeout') }),
+    );
+    expect(failed.products.retry).toBeNull();
+    expect(failed.products.error?.message).toBe('Timeout');
+  });
+
+  it('should track update and delete status per id', () => {
+    const deleting = reducer(
+      reducer(initialState, ProductActions.delete({ id: 1 })),
+      ProductActions.delete({ id: [2, 3] }),
+    );
+    expect(deleting.products.deleting).toEqual({ 1: true, 2: true, 3: true });
+
+    const partlyDone = reducer(
+      deleting,
+      ProductActions.deleteSuccess({ id: [2, 3] }),
+    );
+    expect(partlyDone.products.deleting).toEqual({ 1: true });
+    expect(partlyDone.products.isDeleting).toBeTrue();
+
+    const error = createStateError('Forbidden');
+    const failed = reducer(
+      partlyDone,
+      ProductActions.deleteFailure({ error, id: 1 }),
+    );
+    expect(failed.products.deleting).toEqual({});
+    expect(failed.products.isDeleting).toBeFalse();
+    expect(failed.products.entityErrors).toEqual({ 1: error });
+
+    const retried = reducer(failed, ProductActions.delete({ id: 1 }));
+    expect(retried.products.entityErrors).toEqual({});
+  });
+
+  it('should settle mutations dropped by the effect', () => {
+    const update = ProductActions.update({ id: 4, payload: [] });
+    const dropped = reducer(
+      reducer(initialState, update),
+      actionDropped({ action: update }),
+    );
+    expect(dropped.products.updating).toEqual({});
+    expect(dropped.products.isUpdating).toBeFalse();
+  });
+
+  it('should keep ids pending that the request in flight works on', () => {
+    const first = ProductActions.update({ id: 4, payload: [] });
+    const second = ProductActions.update({ id: 4, payload: [] });
+    const dropped = reducer(
+      [first, second].reduce(reducer, initialState),
+      actionDropped({ action: second, inFlight: first }),
+    );
+    expect(dropped.products.updating).toEqual({ 4: true });
+    expect(dropped.products.isUpdating).toBeTrue();
+  });
+
+  it('should restore the initial slice on reset', () => {
+    const loaded = reducer(
+      { ...initialState, selectedId: 3 },
+      ProductActions.loadSuccess({ data: [{ id: 3, name: 'Probe' }] }),
+    );
+    const reset = reducer(loaded, ProductActions.reset());
+    expect(reset.products).toEqual(initialState.products);
+    expect(reset.selectedId).toBe(3);
+  });
+});
+
+describe('createGenericReducer with staleWhileRevalidate', () => {
+  const FeedActions = createLoadActions<Product[]>('Feed');
+  const reducer = createGenericReducer<TestState, Product[]>({
+    actions: FeedActions,
+    initialState: { products: createDefaultState(), selectedId: null },
+    stateKey: 'products',
+    staleWhileRevalidate: true,
+  });
+  const loaded = reducer(
+    undefined,
+    FeedActions.loadSuccess({
+      data: [{ id: 1, name: 'Scanner' }],
+      params: { page: 1 },
+      cacheKey: serializeParams({ page: 1 }),
+      loadedAt: 1000,
+    }),
+  );
+
+  it('should record when and with which params data was loaded', () => {
+    expect(loaded.products.lastLoadedAt).toBe(1000);
+    expect(loaded.products.lastParams).toEqual({ page: 1 });
+  });
+
+  it('should keep data visible and flag isRefreshing when reloading the same params', () => {
+    const refreshing = reducer(
+      loaded,
+      FeedActions.load({ params: { page: 1 }, forceReload: true }),
+    );
+    expect(refreshing.products.isRefreshing).toBeTrue();
+    expect(refreshing.products.isLoading).toBeFalse();
+    expect(refreshing.products.data?.length).toBe(1);
+  });
+
+  it('should flag isLoading for params that are not loaded yet', () => {
+    const loading = reducer(loaded, FeedActions.load({ params: { page: 2 } }));
+    expect(loading.products.isLoading).toBeTrue();
+    expect(loading.products.isRefreshing).toBeFalse();
+  });
+});
+
+describe('createGenericReducer with polling actions', () => {
+  const MetricActions = {
+    ...createLoadActions<string[]>('Metric'),
+    ...createPollingActions('Metric'),
+  };
+  interface MetricState {
+    metrics: DefaultState<string[]>;
+  }
+  const reducer = createGenericReducer<MetricState, string[]>({
+    actions: MetricActions,
+    initialState: { metrics: createDefaultState<string[]>() },
+    stateKey: 'metrics',
+  });
+  const loaded = reducer(
+    undefined,
+    MetricActions.loadSuccess({ data: ['cpu'], loadedAt: 1_000 }),
+  );
+  const changed = (status: 'active' | 'paused' | 'stopped') =>
+    MetricActions.pollingStatusChanged({ status, intervalMs: 5_000 });
+  const failure = MetricActions.loadFailure({
+    error: createStateError('Timeout'),
+  });
+
+  it('should start from the last load and track polls while active', () => {
+    const active = reducer(loaded, changed('active'));
+    expect(active.metrics.polling).toEqual({
+      status: 'active',
+      intervalMs: 5_000,
+      failures: 0,
+      lastUpdatedAt: 1_000,
+    });
+
+    const failed = reducer(reducer(active, failure), failure);
+    expect(failed.metrics.polling?.failures).toBe(2);
+
+    const polled = reducer(
+      failed,
+      MetricActions.loadSuccess({ data: ['cpu'], loadedAt: 9_000 }),
+    );
+    expect(polled.metrics.polling).toEqual(
+      jasmine.objectContaining({ failures: 0, lastUpdatedAt: 9_000 }),
+    );
+  });
+
+  it('should leave the counters alone while paused or stopped', () => {
+    const paused = reducer(
+      reducer(reducer(loaded, changed('active')), failure),
+      changed('paused'),
+    );
+    expect(reducer(paused, failure).metrics.polling).toEqual(
+      jasmine.objectContaining({ status: 'paused', failures: 1 }),
+    );
+
+    const stopped = reducer(paused, changed('stopped'));
+    const reloaded = reducer(
+      stopped,
+      MetricActions.loadSuccess({ data: [], loadedAt: 7_000 }),
+    );
+    expect(reloaded.metrics.polling?.lastUpdatedAt).toBe(1_000);
+    expect(reducer(reloaded, changed('active')).metrics.polling).toEqual(
+      jasmine.objectContaining({ failures: 0, lastUpdatedAt: 7_000 }),
+    );
+  });
+});
+
+describe('createGenericReducer in entity mode', () => {
+  interface CatalogState {
+    products: EntityCollectionState<Product>;
+  }
+
+  const ProductActions = createCrudActions<Product[], Partial<Product>>(
+    'Catalog',
+  );
+  const initialState: CatalogState = {
+    products: createEntityCollectionState<Product>(),
+  };
+  const reducer = createGenericReducer<CatalogState, Product[]>({
+    actions: ProductActions,
+    initialState,
+    stateKey: 'products',
+    entity: { sortComparer: (a, b) => a.name.localeCompare(b.name) },
+  });
+  const loaded = reducer(
+    initialState,
+    ProductActions.loadSuccess({
+      data: [
+        { id: 1, name: 'Scanner' },
+        { id: 2, name: 'Agent' },
+      ],
+    }),
+  );
+
+  it('should normalize loaded data into sorted ids and entities', () => {
+    expect(loaded.products.loaded).toBeTrue();
+    expect(loaded.products.ids).toEqual([2, 1]);
+    expect(loaded.products.entities[1]).toEqual({ id: 1, name: 'Scanner' });
+  });
+
+  it('should merge add, update and delete successes into the collection', () => {
+    const added = reducer(
+      loaded,
+      ProductActions.addSuccess({ item: { id: 3, name: 'Beacon' } }),
+    );
+    expect(added.products.ids).toEqual([2, 3, 1]);
+
+    const updated = reducer(
+      added,
+      ProductActions.updateSuccess({ item: { id: 1, name: 'Aardvark' } }),
+    );
+    expect(updated.products.ids).toEqual([1, 2, 3]);
+    expect(updated.products.entities[1]?.name).toBe('Aardvark');
+
+    const deleted = reducer(
+      updated,
+      ProductActions.deleteSuccess({ id: [2, 3] }),
+    );
+    expect(deleted.products.ids).toEqual([1]);
+    expect(deleted.products.isDeleting).toBeFalse();
+  });
+
+  it('should keep the entity when an update succeeds without a body', () => {
+    const pending = reducer(
+      loaded,
+      ProductActions.update({ id: 1, payload: [] }),
+    );
+    const updated = reducer(
+      pending,
+      ProductActions.updateSuccess({ id: 1, item: undefined }),
+    );
+
+    expect(updated.products.entities[1]).toEqual({ id: 1, name: 'Scanner' });
+    expect(updated.products.updating).toEqual({});
+  });
+});
+
+describe('createGenericReducer with bulk actions', () => {
+  interface CatalogState {
+    products: EntityCollectionState<Product>;
+  }
+
+  const BulkActions = createBulkActions<Partial<Product>, Product, Product>(
+    'Bulk Catalog',
+  );
+  const reducer = createGenericReducer<CatalogState, Product[]>({
+    actions: BulkActions,
+    initialState: { products: createEntityCollectionState<Product>() },
+    stateKey: 'products',
+    entity: {},
+  });
+  const loaded = reducer(
+    undefined,
+    BulkActions.addManySuccess({
+      items: [
+        { id: 1, name: 'Scanner' },
+        { id: 2, name: 'Agent' },
+        { id: 3, name: 'Beacon' },
+      ],
+      failed: [],
+    }),
+  );
+  const conflict = createStateError('Conflict', { status: 409 });
+
+  it('should merge what went through and keep errors of the failed ids', () => {
+    const updating = reducer(
+      loaded,
+      BulkActions.updateMany({
+        updates: [
+          { id: 1, changes: { name: 'Scanner v2' } },
+          { id: 2, changes: { name: 'Agent v2' } },
+        ],
+      }),
+    );
+    expect(updating.products.updating).toEqual({ 1: true, 2: true });
+
+    const updated = reducer(
+      updating,
+      BulkActions.updateManySuccess({
+        items: [{ id: 1, name: 'Scanner v2' }],
+        ids: [1],
+        failed: [{ index: 1, id: 2, error: conflict }],
+      }),
+    );
+    expect(updated.products.isUpdating).toBeFalse();
+    expect(updated.products.entities[1]?.name).toBe('Scanner v2');
+    expect(updated.products.entities[2]?.name).toBe('Agent');
+    expect(updated.products.entityErrors).toEqual({ 2: conflict });
+    expect(updated.products.bulkResult).toEqual({
+      operation: 'update',
+      succeeded: 1,
+      failed: [{ index: 1, id: 2, error: conflict }],
+    });
+  });
+
+  it('should settle every id when the whole batch fails', () => {
+    const failed = reducer(
+      reducer(loaded, BulkActions.deleteMany({ ids: [1, 3] })),
+      BulkActions.deleteManyFailure({ error: conflict, ids: [1, 3] }),
+    );
+    expect(failed.products.isDeleting).toBeFalse();
+    expect(failed.products.deleteError).toEqual(conflict);
+    expect(Object.keys(failed.products.entityErrors)).toEqual(['1', '3']);
+    expect(failed.products.ids).toEqual([1, 2, 3]);
+
+    const deleted = reducer(
+      reducer(failed, BulkActions.deleteMany({ ids: [1, 3] })),
+      BulkActions.deleteManySuccess({ ids: [1, 3], failed: [] }),
+    );
+    expect(deleted.products.ids).toEqual([2]);
+    expect(deleted.products.entityErrors).toEqual({});
+  });
+});
+
+describe('createGenericReducer in optimistic mode', () => {
+  interface TriageState {
+    findings: EntityCollectionState<Product>;
+  }
+
+  const FindingActions = createCrudActions<
+    Product[],
+    Partial<Product>,
+    Partial<Product>
+  >('Finding');
+  const reducer = createGenericReducer<TriageState, Product[]>({
+    actions: FindingActions,
+    initialState: { findings: createEntityCollectionState<Product>() },
+    stateKey: 'findings',
+    entity: {},
+    optimistic: true,
+  });
+  const loaded = reducer(
+    undefined,
+    FindingActions.loadSuccess({
+      data: [
+        { id: 1, name: 'Open' },
+        { id: 2, name: 'Open' },
+      ],
+    }),
+  );
+
+  it('should apply updates immediately and roll back only the failed edit', () => {
+    const first = FindingActions.update({ id: 1, payload: { name: 'Fixed' } });
+    const second = FindingActions.update({ id: 2, payload: { name: 'Muted' } });
+    const pending = reducer(reducer(loaded, first), second);
+    expect(pending.findings.entities[1]?.name).toBe('Fixed');
+    expect(pending.findings.entities[2]?.name).toBe('Muted');
+
+    const rolledBack = reducer(
+      pending,
+      FindingActions.updateFailure({
+        error: createStateError('Conflict'),
+        correlationId: first.correlationId,
+      }),
+    );
+    expect(rolledBack.findings.entities[1]?.name).toBe('Open');
+    expect(rolledBack.findings.entities[2]?.name).toBe('Muted');
+    expect(rolledBack.findings.updateError?.message).toBe('Conflict');
+    expect(Object.keys(rolledBack.findings.snapshots)).toEqual([
+      second.correlationId,
+    ]);
+  });
+
+  it('should restore optimistically deleted entities on failure', () => {
+    const remove = FindingActions.delete({ id: 2 });
+    const pending = reducer(loaded, remove);
+    expect(pending.findings.ids).toEqual([1]);
+
+    const restored = reducer(
+      pending,
+      FindingActions.deleteFailure({
+        error: createStateError('Forbidden'),
+        correlationId: remove.correlationId,
+      }),
+    );
+    expect(restored.findings.entities[2]).toEqual({ id: 2, name: 'Open' });
+    expect(restored.findings.snapshots).toEqual({});
+  });
+
+  it('should roll back mutations dropped by the effect', () => {
+    const update = FindingActions.update({ id: 1, payload: { name: 'Fixed' } });
+    const dropped = reducer(
+      reducer(loaded, update),
+      actionDropped({ action: update }),
+    );
+    expect(dropped.findings.entities[1]?.name).toBe('Open');
+    expect(dropped.findings.snapshots).toEqual({});
+  });
+
+  it('should require entity options', () => {
+    expect(() =>
+      createGenericReducer<TriageState, Product[]>({
+        actions: FindingActions,
+        initialState: { findings: createEntityCollectionState<Product>() },
+        stateKey: 'findings',
+        optimistic: true,
+      }),
+    ).toThrowError(/require entity options/);
+  });
+});
+
+describe('createHistoryMetaReducer', () => {
+  interface TriageState {
+    findings: EntityCollectionState<Product>;
+    history: HistoryState;
+  }
+
+  const FindingActions = createCrudActions<
+    Product[],
+    Partial<Product>,
+    Partial<Product>
+  >('Triage');
+  const HistoryActions = createHistoryActions('Triage');
+
+  function setup(optimistic: boolean, depth?: number) {
+    const reducer = createHistoryMetaReducer<TriageState>({
+      actions: HistoryActions,
+      stateKey: 'findings',
+      historyKey: 'history',
+      recordOn: [FindingActions.updateSuccess, FindingActions.deleteSuccess],
+      clearOn: [FindingActions.loadSuccess],
+      depth,
+    })(
+      createGenericReducer<TriageState, Product[]>({
+        actions: FindingActions,
+        initialState: {
+          findings: createEntityCollectionState<Product>(),
+          history: createHistoryState(),
+        },
+        stateKey: 'findings',
+        entity: {},
+        optimistic,
+      }),
+    );
+    const loaded = reducer(
+      undefined,
+      FindingActions.loadSuccess({
+        data: [
+          { id: 1, name: 'Open' },
+          { id: 2, name: 'Open' },
+        ],
+      }),
+    );
+    return { reducer, loaded };
+  }
+
+  const rename = (id: number, name: string) =>
+    FindingActions.updateSuccess({ item: { id, name }, id });
+
+  it('should undo and redo recorded changes', () => {
+    const { reducer, loaded } = setup(false);
+    const edited = reducer(
+      reducer(loaded, rename(1, 'Fixed')),
+      FindingActions.deleteSuccess({ id: 2 }),
+    );
+    expect(edited.history.past.length).toBe(2);
+
+    const undone = reducer(edited, HistoryActions.undo({}));
+    expect(undone.findings.ids).toEqual([1, 2]);
+    expect(undone.history.lastRestore?.changes).toEqual([
+      { id: 2, before: null, after: { id: 2, name: 'Open' } },
+    ]);
+
+    const twice = reducer(undone, HistoryActions.undo({}));
+    expect(twice.findings.entities[1]?.name).toBe('Open');
+    expect(twice.history.past).toEqual([]);
+
+    const redone = reducer(twice, HistoryActions.redo({}));
+    expect(redone.findings.entities[1]?.name).toBe('Fixed');
+    expect(redone.history.future.length).toBe(1);
+  });
+
+  it('should drop the redo stack on a new change and cap the depth', () => {
+    const { reducer, loaded } = setup(false, 2);
+    const edited = [rename(1, 'A'), rename(1, 'B'), rename(1, 'C')].reduce(
+      reducer,
+      loaded,
+    );
+    expect(edited.history.past.length).toBe(2);
+
+    const undone = reducer(edited, HistoryActions.undo({}));
+    const changed = reducer(undone, rename(2, 'Muted'));
+    expect(changed.history.future).toEqual([]);
+  });
+
+  it('should ignore other actions and compensating requests', () => {
+    const { reducer, loaded } = setup(false);
+    const added = reducer(
+      loaded,
+      FindingActions.addSuccess({ item: { id: 3, name: 'New' } }),
+    );
+    const compensated = reducer(
+      added,
+      FindingActions.updateSuccess({
+        item: { id: 1, name: 'Open' },
+        id: 1,
+        correlationId: `${HISTORY_CORRELATION_PREFIX}x-0`,
+      }),
+    );
+    expect(compensated.history.past).toEqual([]);
+  });
+
+  it('should record optimistic changes as they were before the request', () => {
+    const { reducer, loaded } = setup(true);
+    const update = FindingActions.update({ id: 1, payload: { name: 'Fixed' } });
+    const pending = reducer(loaded, update);
+    expect(Object.keys(pending.history.pending)).toEqual([
+      update.correlationId,
+    ]);
+
+    const saved = reducer(
+      pending,
+      FindingActions.updateSuccess({
+        item: { id: 1, name: 'Fixed' },
+        id: 1,
+        correlationId: update.correlationId,
+      }),
+    );
+    expect(saved.history.pending).toEqual({});
+
+    const undone = reducer(saved, HistoryActions.undo({}));
+    expect(undone.findings.entities[1]?.name).toBe('Open');
+  });
+
+  it('should clear the history on clearOn actions and clearHistory', () => {
+    const { reducer, loaded } = setup(false);
+    const edited = reducer(loaded, rename(1, 'Fixed'));
+
+    expect(reducer(edited, HistoryActions.clearHistory()).history.past).toEqual(
+      [],
+    );
+    expect(
+      reducer(edited, FindingActions.loadSuccess({ data: [] })).history.past,
+    ).toEqual([]);
+  });
+});
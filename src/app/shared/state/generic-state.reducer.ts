@@ -0,0 +1,1122 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import {
+  Action,
+  ActionCreator,
+  ActionReducer,
+  createReducer,
+  MetaReducer,
+  on,
+  ReducerTypes,
+} from '@ngrx/store';
+import {
+  Comparer,
+  createEntityAdapter,
+  EntityAdapter,
+  IdSelector,
+} from '@ngrx/entity';
+import { produce } from 'immer';
+
+import {
+  actionDropped,
+  BulkActionsGroup,
+  Correlated,
+  CrudActionsGroup,
+  DeleteId,
+  HISTORY_CORRELATION_PREFIX,
+  historyCorrelationId,
+  HistoryActionsGroup,
+  operationRetrying,
+  PollingActionsGroup,
+  StreamActionsGroup,
+} from './generic-state.actions';
+import {
+  BulkFailure,
+  createDefaultState,
+  createEntityCollectionState,
+  createHistoryState,
+  EntityCollectionState,
+  EntityId,
+  EntityOf,
+  EntitySnapshot,
+  HistoryChange,
+  HistorySnapshot,
+  HistoryState,
+  isEntityCollection,
+  isSliceLoaded,
+  OperationKind,
+  OperationState,
+  PollingStatus,
+  SliceState,
+  StateError,
+} from './generic-state.models';
+
+/** ===== Reducer Config Types ===== */
+
+export interface EntityCollectionOptions<T> {
+  selectId?: IdSelector<T>;
+  sortComparer?: false | Comparer<T>;
+}
+
+export interface GenericReducerConfig<TState, TData = any> {
+  actions: Partial<
+    CrudActionsGroup<TData, any, any, any> &
+      BulkActionsGroup<any, any, any> &
+      PollingActionsGroup &
+      StreamActionsGroup<EntityOf<TData>>
+  >;
+  stateKey: keyof TState;
+  // Used by reset to restore the slice; falls back to createDefaultState()
+  initialState?: TState;
+  // Stores the slice as an EntityCollectionState and merges CRUD successes automatically
+  entity?: EntityCollectionOptions<EntityOf<TData>>;
+  // Reloads of the params already shown set isRefreshing instead of isLoading
+  staleWhileRevalidate?: boolean;
+  // Applies update/delete immediately and rolls back on failure (entity mode only)
+  optimistic?: boolean;
+  // Callbacks for custom state updates after CRUD operations
+  onAddSuccess?: (state: TState, item: any) => Partial<TState>;
+  onUpdateSuccess?: (state: TState, item: any) => Partial<TState>;
+  onDeleteSuccess?: (state: TState, id: DeleteId) => Partial<TState>;
+}
+
+export interface HistoryConfig<TState> {
+  actions: HistoryActionsGroup;
+  stateKey: keyof TState;
+  // Where the HistoryState lives in the feature state, next to the slice
+  historyKey: keyof TState;
+  // Actions whose changes can be undone, e.g. [actions.updateSuccess, actions.deleteSuccess]
+  recordOn: readonly ActionCreator[];
+  // Actions that make the recorded snapshots meaningless, e.g. [actions.loadSuccess]
+  clearOn?: readonly ActionCreator[];
+  // Number of undo steps kept; defaults to 50
+  depth?: number;
+  // Only needed to key plain DefaultState arrays; entity slices carry their own ids
+  selectId?: IdSelector<any>;
+}
+
+export interface GenericReducerFactoryConfig<
+  TState,
+  TData = any,
+> extends GenericReducerConfig<TState, TData> {
+  initialState: TState;
+  additionalActions?: ReducerTypes<TState, readonly ActionCreator[]>[];
+}
+
+/** ===== Reducer Helpers ===== */
+
+export function createImmerReducer<State, A extends Action = Action>(
+  initialState: State,
+  ...onList: ReducerTypes<State, any>[]
+): ActionReducer<State, A> {
+  const reducer = createReducer(initialState, ...onList);
+  return (state: State = initialState, action: A) =>
+    produce(state, (draft: State) => reducer(draft, action));
+}
+
+// `on` cannot infer a generic TState, so handlers are typed through this helper
+function onAction<TState, C extends ActionCreator>(
+  creator: C,
+  reducer: (state: TState, action: ReturnType<C>) => TState,
+): ReducerTypes<TState, readonly ActionCreator[]> {
+  return on(creator, reducer as any) as ReducerTypes<
+    TState,
+    readonly ActionCreator[]
+  >;
+}
+
+function updateSlice<TState, TSlice>(
+  state: TState,
+  stateKey: keyof TState,
+  update: (slice: TSlice) => TSlice,
+): TState {
+  return { ...state, [stateKey]: update(state[stateKey] as TSlice) };
+}
+
+function patchSlice<TState>(
+  state: TState,
+  stateKey: keyof TState,
+  patch: Partial<OperationState> & Record<string, unknown>,
+): TState {
+  return updateSlice(state, stateKey, (slice: object) => ({
+    ...slice,
+    ...patch,
+  }));
+}
+
+function toIdArray(id: DeleteId): EntityId[] {
+  return Array.isArray(id) ? id : [id];
+}
+
+type PendingKey = 'updating' | 'deleting';
+
+function setKeys<V>(
+  record: Record<string, V>,
+  ids: EntityId[],
+  value: V,
+): Record<string, V> {
+  return { ...record, ...Object.fromEntries(ids.map((id) => [id, value])) };
+}
+
+// Responses without a body, e.g. 204 from PUT or PATCH, leave their entities as they are
+function upsertResponses<T>(
+  adapter: EntityAdapter<T>,
+  items: readonly (T | null | undefined)[],
+  slice: EntityCollectionState<T>,
+): EntityCollectionState<T> {
+  return adapter.upsertMany(
+    items.filter((item): item is T => item != null),
+    slice,
+  );
+}
+
+function omitKeys<V>(
+  record: Record<string, V>,
+  ids: EntityId[],
+): Record<string, V> {
+  const rest = { ...record };
+  ids.forEach((id) => delete rest[id]);
+  return rest;
+}
+
+// Marks ids as pending and clears the errors of their previous attempt
+function startEntityOperation<TState>(
+  state: TState,
+  stateKey: keyof TState,
+  key: PendingKey,
+  ids: EntityId[],
+): TState {
+  return updateSlice(state, stateKey, (slice: OperationState) => ({
+    ...slice,
+    [key]: setKeys(slice[key], ids, true),
+    entityErrors: omitKeys(slice.entityErrors, ids),
+  }));
+}
+
+// Without ids (hand-dispatched settle actions) every pending id is settled
+function settleEntityOperation<TState>(
+  state: TState,
+  stateKey: keyof TState,
+  key: PendingKey,
+  ids: EntityId[] | undefined,
+  error: StateError | null,
+): TState {
+  return updateSlice(state, stateKey, (slice: OperationState) => {
+    const pending = ids ? omitKeys(slice[key], ids) : {};
+    return {
+      ...slice,
+      [key]: pending,
+      [key === 'updating' ? 'isUpdating' : 'isDeleting']:
+        Object.keys(pending).length > 0,
+      entityErrors:
+        ids && error
+          ? setKeys(slice.entityErrors, ids, error)
+          : slice.entityErrors,
+    };
+  });
+}
+
+function stashSnapshot<T>(
+  slice: EntityCollectionState<T>,
+  correlationId: string,
+  ids: EntityId[],
+  change: (slice: EntityCollectionState<T>) => EntityCollectionState<T>,
+): EntityCollectionState<T> {
+  const snapshot: EntitySnapshot<T> = ids.map((id) => ({
+    id,
+    entity: slice.entities[id] ?? null,
+  }));
+  return {
+    ...change(slice),
+    snapshots: { ...slice.snapshots, [correlationId]: snapshot },
+  };
+}
+
+function dropSnapshot<T>(
+  slice: EntityCollectionState<T>,
+  correlationId: string | undefined,
+): EntityCollectionState<T> {
+  if (!correlationId || !(correlationId in slice.snapshots)) return slice;
+  const snapshots = { ...slice.snapshots };
+  delete snapshots[correlationId];
+  return { ...slice, snapshots };
+}
+
+function rollbackSnapshot<T>(
+  adapter: EntityAdapter<T>,
+  slice: EntityCollectionState<T>,
+  correlationId: string | undefined,
+): EntityCollectionState<T> {
+  const snapshot = correlationId ? slice.snapshots[correlationId] : undefined;
+  if (!snapshot) return slice;
+  const restored = snapshot.reduce(
+    (current, { id, entity }) =>
+      entity
+        ? adapter.setOne(entity, current)
+        : adapter.removeOne(id as string, current),
+    slice,
+  );
+  return dropSnapshot(restored, correlationId);
+}
+
+function takeHistorySnapshot(slice: SliceState): HistorySnapshot {
+  return isEntityCollection(slice)
+    ? { ids: slice.ids, entities: slice.entities }
+    : { data: slice.data };
+}
+
+function isSameSnapshot(a: HistorySnapshot, b: HistorySnapshot): boolean {
+  return 'data' in a && 'data' in b
+    ? a.data === b.data
+    : 'ids' in a && 'ids' in b && a.ids === b.ids && a.entities === b.entities;
+}
+
+function snapshotIds(
+  snapshot: HistorySnapshot,
+  selectId: (entity: any) => EntityId,
+): EntityId[] {
+  if ('ids' in snapshot) return snapshot.ids as EntityId[];
+  return Array.isArray(snapshot.data) ? snapshot.data.map(selectId) : [];
+}
+
+function snapshotEntities(
+  snapshot: HistorySnapshot,
+  selectId: (entity: any) => EntityId,
+): Record<string, unknown> {
+  if ('entities' in snapshot) return snapshot.entities;
+  return Array.isArray(snapshot.data)
+    ? Object.fromEntries(snapshot.data.map((item) => [selectId(item), item]))
+    : {};
+}
+
+// Entities that differ between two snapshots; single-object data yields none
+function diffSnapshots(
+  from: HistorySnapshot,
+  to: HistorySnapshot,
+  selectId: (entity: any) => EntityId,
+): HistoryChange[] {
+  const before = snapshotEntities(from, selectId);
+  const after = snapshotEntities(to, selectId);
+  const ids = new Set([
+    ...snapshotIds(from, selectId),
+    ...snapshotIds(to, selectId),
+  ]);
+  return [...ids]
+    .filter((id) => before[id] !== after[id])
+    .map((id) => ({
+      id,
+      before: before[id] ?? null,
+      after: after[id] ?? null,
+    }));
+}
+
+function recordHistory(
+  history: HistoryState,
+  previous: SliceState,
+  next: SliceState,
+  correlationId: string | undefined,
+  depth: number,
+): HistoryState {
+  const before =
+    (correlationId && history.pending[correlationId]) ||
+    takeHistorySnapshot(previous);
+  const pending = correlationId
+    ? omitKeys(history.pending, [correlationId])
+    : history.pending;
+  if (isSameSnapshot(before, takeHistorySnapshot(next))) {
+    return { ...history, pending };
+  }
+  return {
+    ...history,
+    past: [...history.past, before].slice(-depth),
+    future: [],
+    pending,
+  };
+}
+
+// Keeps the pre-request snapshot of optimistic changes until they are recorded
+function trackPendingChange(
+  history: HistoryState,
+  previous: SliceState,
+  next: SliceState,
+  correlationId: string,
+): HistoryState {
+  const wasPending =
+    isEntityCollection(previous) && correlationId in previous.snapshots;
+  const isPending = isEntityCollection(next) && correlationId in next.snapshots;
+  if (isPending && !wasPending) {
+    return {
+      ...history,
+      pending: {
+        ...history.pending,
+        [correlationId]: takeHistorySnapshot(previous),
+      },
+    };
+  }
+  // Rolled back or dropped without reaching a recorded action
+  if (!isPending && correlationId in history.pending) {
+    return { ...history, pending: omitKeys(history.pending, [correlationId]) };
+  }
+  return history;
+}
+
+// Removes the local copy of an entity brought back by undo/redo once its compensating add
+// settles: the server's copy replaces it, or it never came back. A server that kept the id
+// has already replaced the copy itself.
+function dropRecreated(
+  previous: SliceState,
+  next: SliceState,
+  id: EntityId,
+): SliceState {
+  if (
+    !isEntityCollection(next) ||
+    !isEntityCollection(previous) ||
+    next.entities[id] !== previous.entities[id]
+  ) {
+    return next;
+  }
+  return {
+    ...next,
+    ids: (next.ids as string[]).filter((existing) => existing !== id),
+    entities: omitKeys(next.entities, [id]),
+  };
+}
+
+/**
+ * Records snapshots of a slice before every `recordOn` action and restores them on
+ * undo/redo. Optimistic changes are recorded as they were before the request.
+ */
+export function createHistoryMetaReducer<TState>(
+  config: HistoryConfig<TState>,
+): MetaReducer<TState> {
+  const {
+    actions,
+    stateKey,
+    historyKey,
+    recordOn,
+    clearOn = [],
+    depth = 50,
+  } = config;
+  const selectId = config.selectId ?? ((entity: any): EntityId => entity.id);
+  const recordTypes = new Set(recordOn.map((creator) => creator.type));
+  const clearTypes = new Set(clearOn.map((creator) => creator.type));
+
+  const restore = (
+    state: TState,
+    direction: 'undo' | 'redo',
+    correlationId: string,
+  ): TState => {
+    const history = state[historyKey] as HistoryState;
+    const stack = direction === 'undo' ? history.past : history.future;
+    if (!stack.length) return state;
+
+    const slice = state[stateKey] as SliceState;
+    const current = takeHistorySnapshot(slice);
+    const target = direction === 'undo' ? stack[stack.length - 1] : stack[0];
+    const changes = diffSnapshots(current, target, selectId);
+    // Entities that come back are created again by the compensating add
+    const recreated = isEntityCollection(slice)
+      ? changes.flatMap(({ id, before }, index) =>
+          before === null
+            ? [[historyCorrelationId(correlationId, index), id]]
+            : [],
+        )
+      : [];
+    const restored: HistoryState = {
+      ...history,
+      past:
+        direction === 'undo'
+          ? history.past.slice(0, -1)
+          : [...history.past, current],
+      future:
+        direction === 'undo'
+          ? [current, ...history.future]
+          : history.future.slice(1),
+      lastRestore: { correlationId, changes },
+      recreated: { ...history.recreated, ...Object.fromEntries(recreated) },
+    };
+    return {
+      ...state,
+      [stateKey]: { ...slice, ...target },
+      [historyKey]: restored,
+    };
+  };
+
+  return (reducer) => (state, action) => {
+    const next = reducer(state, action);
+    const { correlationId } = action as Action & Correlated;
+
+    switch (action.type) {
+      case actions.undo.type:
+        return restore(next, 'undo', correlationId!);
+      case actions.redo.type:
+        return restore(next, 'redo', correlationId!);
+      case actions.clearHistory.type:
+        return { ...next, [historyKey]: createHistoryState() };
+    }
+    if (clearTypes.has(action.type)) {
+      return { ...next, [historyKey]: createHistoryState() };
+    }
+    if (state == null) return next;
+
+    const previousSlice = state[stateKey] as SliceState;
+    const nextSlice = next[stateKey] as SliceState;
+    let history = next[historyKey] as HistoryState;
+    if (
+      recordTypes.has(action.type) &&
+      !correlationId?.startsWith(HISTORY_CORRELATION_PREFIX)
+    ) {
+      history = recordHistory(
+        history,
+        previousSlice,
+        nextSlice,
+        correlationId,
+        depth,
+      );
+    }
+    if (correlationId) {
+      history = trackPendingChange(
+        history,
+        previousSlice,
+        nextSlice,
+        correlationId,
+      );
+    }
+    // Compensating adds settle with their success or failure, or are dropped
+    const dropped =
+      action.type === actionDropped.type
+        ? (action as ReturnType<typeof actionDropped>).action.correlationId
+        : undefined;
+    const compensation = dropped ?? correlationId;
+    let slice = nextSlice;
+    if (
+      compensation &&
+      compensation in history.recreated &&
+      (dropped || !nextSlice.isAdding)
+    ) {
+      slice = dropRecreated(
+        previousSlice,
+        nextSlice,
+        history.recreated[compensation],
+      );
+      history = {
+        ...history,
+        recreated: omitKeys(history.recreated, [compensation]),
+      };
+    }
+    return slice === nextSlice && history === next[historyKey]
+      ? next
+      : { ...next, [stateKey]: slice, [historyKey]: history };
+  };
+}
+
+export function createDefaultReducerHandlers<TState, TData = any>(
+  config: GenericReducerConfig<TState, TData>,
+): ReducerTypes<TState, readonly ActionCreator[]>[] {
+  const {
+    actions,
+    stateKey,
+    initialState,
+    entity,
+    optimistic = false,
+    staleWhileRevalidate = false,
+    onAddSuccess,
+    onUpdateSuccess,
+    onDeleteSuccess,
+  } = config;
+
+  if (optimistic && !entity) {
+    throw new Error(
+      `Optimistic updates for "${String(stateKey)}" require entity options`,
+    );
+  }
+  if ((actions.upsert || actions.remove) && !entity) {
+    throw new Error(
+      `Stream changes for "${String(stateKey)}" require entity options`,
+    );
+  }
+
+  const adapter: EntityAdapter<any> | null = entity
+    ? createEntityAdapter<any>(entity)
+    : null;
+
+  // Applies an adapter operation to the slice; a no-op outside entity mode
+  const mergeEntities = (
+    state: TState,
+    change: (
+      adapter: EntityAdapter<any>,
+      slice: EntityCollectionState<any>,
+    ) => EntityCollectionState<any>,
+  ): TState =>
+    adapter
+      ? updateSlice(state, stateKey, (slice: EntityCollectionState<any>) =>
+          change(adapter, slice),
+        )
+      : state;
+
+  const handlers: ReducerTypes<TState, readonly ActionCreator[]>[] = [];
+
+  // Load handlers
+  if (actions.load && actions.loadSuccess && actions.loadFailure) {
+    handlers.push(
+      onAction(actions.load, (state: TState, { cacheKey }) => {
+        const slice = state[stateKey] as SliceState;
+        const revalidating =
+          staleWhileRevalidate &&
+          isSliceLoaded(slice) &&
+          slice.cacheKey === cacheKey;
+        return patchSlice(state, stateKey, {
+          [revalidating ? 'isRefreshing' : 'isLoading']: true,
+          error: null,
+        });
+      }),
+      onAction(
+        actions.loadSuccess,
+        (state: TState, { data, params, cacheKey, loadedAt }) => {
+          const next = patchSlice(state, stateKey, {
+            isLoading: false,
+            isRefreshing: false,
+            error: null,
+            lastLoadedAt: loadedAt ?? null,
+            lastParams: params ?? null,
+            cacheKey: cacheKey ?? null,
+          });
+          return adapter
+            ? mergeEntities(next, (adapter, slice) => ({
+                ...adapter.setAll(data as any[], slice),
+                loaded: true,
+              }))
+            : patchSlice(next, stateKey, { data });
+        },
+      ),
+      onAction(actions.loadFailure, (state: TState, { error }) =>
+        patchSlice(state, stateKey, {
+          isLoading: false,
+          isRefreshing: false,
+          error,
+        }),
+      ),
+    );
+  }
+
+  if (actions.loadCancelled) {
+    handlers.push(
+      onAction(actions.loadCancelled, (state: TState) =>
+        patchSlice(state, stateKey, { isLoading: false, isRefreshing: false }),
+      ),
+    );
+  }
+
+  // Add handlers
+  if (actions.add && actions.addSuccess && actions.addFailure) {
+    handlers.push(
+      onAction(actions.add, (state: TState) =>
+        patchSlice(state, stateKey, {
+          isAdding: true,
+          addError: null,
+          error: null,
+        }),
+      ),
+      onAction(actions.addSuccess, (state: TState, { item }) => {
+        const next = mergeEntities(
+          patchSlice(state, stateKey, { isAdding: false }),
+          (adapter, slice) => upsertResponses(adapter, [item], slice),
+        );
+        return { ...next, ...(onAddSuccess ? onAddSuccess(next, item) : {}) };
+      }),
+      onAction(actions.addFailure, (state: TState, { error }) =>
+        patchSlice(state, stateKey, {
+          isAdding: false,
+          addError: error,
+          error,
+        }),
+      ),
+    );
+  }
+
+  // Update handlers
+  if (actions.update && actions.updateSuccess && actions.updateFailure) {
+    handlers.push(
+      onAction(
+        actions.update,
+        (state: TState, { id, payload, correlationId }) => {
+          const next = startEntityOperation(
+            patchSlice(state, stateKey, {
+              isUpdating: true,
+              updateError: null,
+              error: null,
+            }),
+            stateKey,
+            'updating',
+            [id],
+          );
+          return optimistic
+            ? mergeEntities(next, (adapter, slice) =>
+                stashSnapshot(slice, correlationId, [id], (current) =>
+                  adapter.updateOne(
+                    { id: id as string, changes: payload },
+                    current,
+                  ),
+                ),
+              )
+            : next;
+        },
+      ),
+      onAction(
+        actions.updateSuccess,
+        (state: TState, { item, id, correlationId }) => {
+          const next = mergeEntities(
+            settleEntityOperation(
+              state,
+              stateKey,
+              'updating',
+              id === undefined ? undefined : [id],
+              null,
+            ),
+            (adapter, slice) =>
+              dropSnapshot(
+                upsertResponses(adapter, [item], slice),
+                correlationId,
+              ),
+          );
+          return {
+            ...next,
+            ...(onUpdateSuccess ? onUpdateSuccess(next, item) : {}),
+          };
+        },
+      ),
+      onAction(
+        actions.updateFailure,
+        (state: TState, { error, id, correlationId }) =>
+          mergeEntities(
+            settleEntityOperation(
+              patchSlice(state, stateKey, { updateError: error, error }),
+              stateKey,
+              'updating',
+              id === undefined ? undefined : [id],
+              error,
+            ),
+            (adapter, slice) => rollbackSnapshot(adapter, slice, correlationId),
+          ),
+      ),
+    );
+  }
+
+  // Delete handlers
+  if (actions.delete && actions.deleteSuccess && actions.deleteFailure) {
+    handlers.push(
+      onAction(actions.delete, (state: TState, { id, correlationId }) => {
+        const next = startEntityOperation(
+          patchSlice(state, stateKey, {
+            isDeleting: true,
+            deleteError: null,
+            error: null,
+          }),
+          stateKey,
+          'deleting',
+          toIdArray(id),
+        );
+        return optimistic
+          ? mergeEntities(next, (adapter, slice) =>
+              stashSnapshot(slice, correlationId, toIdArray(id), (current) =>
+                adapter.removeMany(toIdArray(id) as string[], current),
+              ),
+            )
+          : next;
+      }),
+      onAction(
+        actions.deleteSuccess,
+        (state: TState, { id, correlationId }) => {
+          const next = mergeEntities(
+            settleEntityOperation(
+              state,
+              stateKey,
+              'deleting',
+              toIdArray(id),
+              null,
+            ),
+            (adapter, slice) =>
+              dropSnapshot(
+                adapter.removeMany(toIdArray(id) as string[], slice),
+                correlationId,
+              ),
+          );
+          return {
+            ...next,
+            ...(onDeleteSuccess ? onDeleteSuccess(next, id) : {}),
+          };
+        },
+      ),
+      onAction(
+        actions.deleteFailure,
+        (state: TState, { error, id, correlationId }) =>
+          mergeEntities(
+            settleEntityOperation(
+              patchSlice(state, stateKey, { deleteError: error, error }),
+              stateKey,
+              'deleting',
+              id === undefined ? undefined : toIdArray(id),
+              error,
+            ),
+            (adapter, slice) => rollbackSnapshot(adapter, slice, correlationId),
+          ),
+      ),
+    );
+  }
+
+  // Bulk handlers: items that went through are merged like single successes and failed
+  // ids keep their own entityErrors; bulk changes are never applied optimistically
+  const settleFailures = (
+    state: TState,
+    key: PendingKey,
+    failed: BulkFailure[],
+  ): TState =>
+    failed.reduce(
+      (next, { id, error }) =>
+        id === null
+          ? next
+          : settleEntityOperation(next, stateKey, key, [id], error),
+      state,
+    );
+
+  if (actions.addMany && actions.addManySuccess && actions.addManyFailure) {
+    handlers.push(
+      onAction(actions.addMany, (state: TState) =>
+        patchSlice(state, stateKey, {
+          isAdding: true,
+          addError: null,
+          error: null,
+          bulkResult: null,
+        }),
+      ),
+      onAction(actions.addManySuccess, (state: TState, { items, failed }) => {
+        const next = mergeEntities(
+          patchSlice(state, stateKey, {
+            isAdding: false,
+            bulkResult: { operation: 'add', succeeded: items.length, failed },
+          }),
+          (adapter, slice) => upsertResponses(adapter, items, slice),
+        );
+        return onAddSuccess
+          ? items.reduce(
+              (current, item) => ({
+                ...current,
+                ...onAddSuccess(current, item),
+              }),
+              next,
+            )
+          : next;
+      }),
+      onAction(actions.addManyFailure, (state: TState, { error }) =>
+        patchSlice(state, stateKey, {
+          isAdding: false,
+          addError: error,
+          error,
+        }),
+      ),
+    );
+  }
+
+  if (
+    actions.updateMany &&
+    actions.updateManySuccess &&
+    actions.updateManyFailure
+  ) {
+    handlers.push(
+      onAction(actions.updateMany, (state: TState, { updates }) =>
+        startEntityOperation(
+          patchSlice(state, stateKey, {
+            isUpdating: true,
+            updateError: null,
+            error: null,
+            bulkResult: null,
+          }),
+          stateKey,
+          'updating',
+          updates.map(({ id }) => id),
+        ),
+      ),
+      onAction(
+        actions.updateManySuccess,
+        (state: TState, { items, ids, failed }) => {
+          const next = mergeEntities(
+            settleFailures(
+              settleEntityOperation(
+                patchSlice(state, stateKey, {
+                  bulkResult: {
+                    operation: 'update',
+                    succeeded: ids.length,
+                    failed,
+                  },
+                }),
+                stateKey,
+                'updating',
+                ids,
+                null,
+              ),
+              'updating',
+              failed,
+            ),
+            (adapter, slice) => upsertResponses(adapter, items, slice),
+          );
+          return onUpdateSuccess
+            ? items.reduce(
+                (current, item) => ({
+                  ...current,
+                  ...onUpdateSuccess(current, item),
+                }),
+                next,
+              )
+            : next;
+        },
+      ),
+      onAction(actions.updateManyFailure, (state: TState, { error, ids }) =>
+        settleEntityOperation(
+          patchSlice(state, stateKey, { updateError: error, error }),
+          stateKey,
+          'updating',
+          ids,
+          error,
+        ),
+      ),
+    );
+  }
+
+  if (
+    actions.deleteMany &&
+    actions.deleteManySuccess &&
+    actions.deleteManyFailure
+  ) {
+    handlers.push(
+      onAction(actions.deleteMany, (state: TState, { ids }) =>
+        startEntityOperation(
+          patchSlice(state, stateKey, {
+            isDeleting: true,
+            deleteError: null,
+            error: null,
+            bulkResult: null,
+          }),
+          stateKey,
+          'deleting',
+          ids,
+        ),
+      ),
+      onAction(actions.deleteManySuccess, (state: TState, { ids, failed }) => {
+        const next = mergeEntities(
+          settleFailures(
+            settleEntityOperation(
+              patchSlice(state, stateKey, {
+                bulkResult: {
+                  operation: 'delete',
+                  succeeded: ids.length,
+                  failed,
+                },
+              }),
+              stateKey,
+              'deleting',
+              ids,
+              null,
+            ),
+            'deleting',
+            failed,
+          ),
+          (adapter, slice) => adapter.removeMany(ids as string[], slice),
+        );
+        return onDeleteSuccess && ids.length > 0
+          ? { ...next, ...onDeleteSuccess(next, ids) }
+          : next;
+      }),
+      onAction(actions.deleteManyFailure, (state: TState, { error, ids }) =>
+        settleEntityOperation(
+          patchSlice(state, stateKey, { deleteError: error, error }),
+          stateKey,
+          'deleting',
+          ids,
+          error,
+        ),
+      ),
+    );
+  }
+
+  // Mutations discarded by the exhaust strategy never settle, so settle (and undo) them here;
+  // ids the request in flight also works on stay pending until that request settles
+  const pendingKeys: Record<string, PendingKey> = {
+    ...(actions.update ? { [actions.update.type]: 'updating' } : {}),
+    ...(actions.delete ? { [actions.delete.type]: 'deleting' } : {}),
+  };
+  handlers.push(
+    onAction(actionDropped, (state: TState, { action, inFlight }) => {
+      const key = pendingKeys[action.type];
+      if (!key) return state;
+      const idsOf = (dropped: Action) =>
+        toIdArray((dropped as Action & { id: DeleteId }).id).map(String);
+      const held =
+        inFlight && pendingKeys[inFlight.type] === key ? idsOf(inFlight) : [];
+      const next = settleEntityOperation(
+        state,
+        stateKey,
+        key,
+        idsOf(action).filter((id) => !held.includes(id)),
+        null,
+      );
+      return optimistic
+        ? mergeEntities(next, (adapter, slice) =>
+            rollbackSnapshot(adapter, slice, action.correlationId),
+          )
+        : next;
+    }),
+  );
+
+  // Polling status reported by createPollingEffect; loads settled while active update its counters
+  if (actions.pollingStatusChanged) {
+    handlers.push(
+      onAction(
+        actions.pollingStatusChanged,
+        (state: TState, { status, intervalMs }) => {
+          const slice = state[stateKey] as SliceState;
+          // A new start picks up whatever was loaded since polling stopped
+          const previous =
+            slice.polling?.status === 'stopped' ? null : slice.polling;
+          return patchSlice(state, stateKey, {
+            polling: {
+              status,
+              intervalMs,
+              // The effect restarts its backoff whenever polling (re)activates
+              failures: status === 'active' ? 0 : (previous?.failures ?? 0),
+              lastUpdatedAt: previous?.lastUpdatedAt ?? slice.lastLoadedAt,
+            },
+          });
+        },
+      ),
+    );
+  }
+  if (
+    actions.pollingStatusChanged &&
+    actions.loadSuccess &&
+    actions.loadFailure
+  ) {
+    const whilePolling = (
+      state: TState,
+      patch: (polling: PollingStatus) => Partial<PollingStatus>,
+    ): TState => {
+      const { polling } = state[stateKey] as SliceState;
+      return polling?.status === 'active'
+        ? patchSlice(state, stateKey, {
+            polling: { ...polling, ...patch(polling) },
+          })
+        : state;
+    };
+    handlers.push(
+      onAction(actions.loadSuccess, (state: TState, { loadedAt }) =>
+        whilePolling(state, () => ({
+          failures: 0,
+          lastUpdatedAt: loadedAt ?? Date.now(),
+        })),
+      ),
+      onAction(actions.loadFailure, (state: TState) =>
+        whilePolling(state, ({ failures }) => ({ failures: failures + 1 })),
+      ),
+    );
+  }
+
+  // Entity feed and connection status reported by createStreamEffect
+  if (actions.upsert) {
+    handlers.push(
+      onAction(actions.upsert, (state: TState, { items }) =>
+        mergeEntities(state, (adapter, slice) =>
+          upsertResponses(adapter, items, slice),
+        ),
+      ),
+    );
+  }
+  if (actions.remove) {
+    handlers.push(
+      onAction(actions.remove, (state: TState, { ids }) =>
+        mergeEntities(state, (adapter, slice) =>
+          adapter.removeMany(ids as string[], slice),
+        ),
+      ),
+    );
+  }
+  if (actions.streamStatusChanged) {
+    handlers.push(
+      onAction(
+        actions.streamStatusChanged,
+        (state: TState, { status, error, attempt }) =>
+          patchSlice(state, stateKey, { stream: { status, error, attempt } }),
+      ),
+    );
+  }
+
+  // Retry progress reported by the effects, cleared once that operation settles
+  const operations: [
+    OperationKind,
+    ActionCreator | undefined,
+    (ActionCreator | undefined)[],
+  ][] = [
+    [
+      'load',
+      actions.load,
+      [actions.loadSuccess, actions.loadFailure, actions.loadCancelled],
+    ],
+    ['add', actions.add, [actions.addSuccess, actions.addFailure]],
+    ['update', actions.update, [actions.updateSuccess, actions.updateFailure]],
+    ['delete', actions.delete, [actions.deleteSuccess, actions.deleteFailure]],
+  ];
+  handlers.push(
+    onAction(
+      operationRetrying,
+      (state: TState, { action, attempt, maxAttempts }) => {
+        const match = operations.find(
+          ([, trigger]) => trigger?.type === action.type,
+        );
+        return match
+          ? patchSlice(state, stateKey, {
+              retry: { operation: match[0], attempt, maxAttempts },
+            })
+          : state;
+      },
+    ),
+  );
+  for (const [operation, trigger, settled] of operations) {
+    if (!trigger) continue;
+    // Same-type handlers compose, so these run after the settle handlers above
+    for (const creator of settled) {
+      if (!creator) continue;
+      handlers.push(
+        onAction(creator, (state: TState) =>
+          (state[stateKey] as SliceState).retry?.operation === operation
+            ? patchSlice(state, stateKey, { retry: null })
+            : state,
+        ),
+      );
+    }
+  }
+
+  // Reset handler
+  if (actions.reset) {
+    handlers.push(
+      onAction(actions.reset, (state: TState) => ({
+        ...state,
+        [stateKey]: initialState
+          ? initialState[stateKey]
+          : entity
+            ? createEntityCollectionState()
+            : createDefaultState<TData>(),
+      })),
+    );
+  }
+
+  return handlers;
+}
+
+export function createGenericReducer<TState, TData = any>(
+  config: GenericReducerFactoryConfig<TState, TData>,
+): ActionReducer<TState> {
+  const { initialState, additionalActions = [] } = config;
+
+  return createReducer(
+    initialState,
+    ...createDefaultReducerHandlers(config),
+    ...additionalActions,
+  );
+}
@@ -0,0 +1,134 @@
+import { Component } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideRouter, Router } from '@angular/router';
+import { Actions } from '@ngrx/effects';
+import { Action } from '@ngrx/store';
+import { Subject, Subscription } from 'rxjs';
+
+import {
+  createLoadActions,
+  createQueryParamsActions,
+} from './generic-state.actions';
+import {
+  createRouterLoadEffect,
+  parseQueryParams,
+  queryParamCodecs,
+  serializeQueryParams,
+} from './generic-state.router';
+
+interface ScanParams {
+  page: number;
+  severity: string[];
+  search: string;
+}
+
+const codecs = {
+  page: queryParamCodecs.number(1),
+  severity: queryParamCodecs.list(),
+  search: queryParamCodecs.string(),
+};
+
+@Component({ standalone: true, template: '' })
+class BlankComponent {}
+
+describe('query param codecs', () => {
+  it('should parse with fallbacks and leave fallback values out of the URL', () => {
+    expect(
+      parseQueryParams<ScanParams>(
+        { page: 'x', severity: 'high,critical' },
+        codecs,
+      ),
+    ).toEqual({ page: 1, severity: ['high', 'critical'], search: '' });
+    expect(
+      serializeQueryParams<ScanParams>({ page: 1, search: 'log4j' }, codecs),
+    ).toEqual({ page: null, search: 'log4j' });
+  });
+});
+
+describe('createRouterLoadEffect', () => {
+  const ScanActions = {
+    ...createLoadActions<string[]>('Scan'),
+    ...createQueryParamsActions<ScanParams>('Scan'),
+  };
+  let router: Router;
+  let source: Subject<Action>;
+  let emitted: Action[];
+  let subscription: Subscription;
+
+  const loadedParams = () =>
+    emitted.map(
+      (action) => (action as ReturnType<typeof ScanActions.load>).params,
+    );
+
+  function subscribe(path?: string) {
+    subscription = createRouterLoadEffect(
+      new Actions(source),
+      router,
+      ScanActions,
+      { codecs, path },
+    ).subscribe((action) => emitted.push(action));
+  }
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideRouter([
+          { path: 'scans', component: BlankComponent },
+          { path: 'home', component: BlankComponent },
+        ]),
+      ],
+    });
+    router = TestBed.inject(Router);
+    source = new Subject<Action>();
+    emitted = [];
+  });
+
+  afterEach(() => subscription.unsubscribe());
+
+  it('should wait for the first navigation before reading the URL', async () => {
+    subscribe();
+    await router.navigateByUrl('/scans?page=3');
+
+    expect(loadedParams()).toEqual([{ page: 3, severity: [], search: '' }]);
+  });
+
+  describe('after navigating', () => {
+    beforeEach(async () => {
+      await router.navigateByUrl('/scans?page=3&severity=high');
+      subscribe('/scans');
+    });
+
+    it('should load the params of the current URL and of every navigation', async () => {
+      await router.navigateByUrl('/scans?page=4&severity=high');
+      await router.navigateByUrl('/scans?severity=high&page=4&utm=mail');
+      await router.navigateByUrl('/home?page=9');
+      await router.navigateByUrl('/scans?page=4&severity=high');
+
+      expect(emitted[0]).toEqual(
+        ScanActions.load({
+          params: { page: 3, severity: ['high'], search: '' },
+        }),
+      );
+      expect(loadedParams()).toEqual([
+        { page: 3, severity: ['high'], search: '' },
+        { page: 4, severity: ['high'], search: '' },
+        { page: 4, severity: ['high'], search: '' },
+      ]);
+    });
+
+    it('should write changed params to the URL and load them', async () => {
+      source.next(
+        ScanActions.changeQueryParams({ params: { page: 1, search: 'ssl' } }),
+      );
+      // The effect navigates asynchronously
+      await new Promise((resolve) => setTimeout(resolve));
+
+      expect(router.url).toBe('/scans?severity=high&search=ssl');
+      expect(loadedParams()[1]).toEqual({
+        page: 1,
+        severity: ['high'],
+        search: 'ssl',
+      });
+    });
+  });
+});
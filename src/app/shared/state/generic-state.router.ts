@@ -0,0 +1,149 @@
+import { NavigationEnd, Params, Router } from '@angular/router';
+import { Actions, ofType } from '@ngrx/effects';
+import { Action } from '@ngrx/store';
+import {
+  catchError,
+  concatMap,
+  defer,
+  distinctUntilChanged,
+  EMPTY,
+  filter,
+  from,
+  ignoreElements,
+  map,
+  merge,
+  Observable,
+  startWith,
+} from 'rxjs';
+
+import {
+  LoadActionsGroup,
+  QueryParamsActionsGroup,
+  serializeParams,
+} from './generic-state.actions';
+
+/** ===== Router Config Types ===== */
+
+export interface QueryParamCodec<T> {
+  parse: (value: string | null) => T;
+  // null leaves the parameter out of the URL
+  serialize: (value: T) => string | null;
+}
+
+export type QueryParamCodecs<TParams> = {
+  [K in keyof TParams]: QueryParamCodec<TParams[K]>;
+};
+
+export interface RouterLoadConfig<TParams> {
+  codecs: QueryParamCodecs<TParams>;
+  // Only loads while the URL path is this one, e.g. '/scm-2'; any path by default
+  path?: string;
+  // Replaces the history entry instead of adding one for every param change
+  replaceUrl?: boolean;
+}
+
+/** ===== Router Helpers ===== */
+
+// Codecs for common param types; values equal to the fallback are left out of the URL
+export const queryParamCodecs = {
+  string: (fallback = ''): QueryParamCodec<string> => ({
+    parse: (value) => value ?? fallback,
+    serialize: (value) => (value === fallback ? null : value),
+  }),
+  number: (fallback: number): QueryParamCodec<number> => ({
+    parse: (value) => {
+      const parsed = value === null || value === '' ? NaN : Number(value);
+      return Number.isFinite(parsed) ? parsed : fallback;
+    },
+    serialize: (value) => (value === fallback ? null : String(value)),
+  }),
+  boolean: (fallback = false): QueryParamCodec<boolean> => ({
+    parse: (value) => (value === null ? fallback : value === 'true'),
+    serialize: (value) => (value === fallback ? null : String(value)),
+  }),
+  // Comma-separated, e.g. ?severity=high,critical
+  list: (): QueryParamCodec<string[]> => ({
+    parse: (value) => (value ? value.split(',') : []),
+    serialize: (value) => (value.length > 0 ? value.join(',') : null),
+  }),
+};
+
+export function parseQueryParams<TParams>(
+  queryParams: Params,
+  codecs: QueryParamCodecs<TParams>,
+): TParams {
+  return Object.fromEntries(
+    Object.entries(codecs as Record<string, QueryParamCodec<unknown>>).map(
+      ([key, codec]) => {
+        const raw = queryParams[key];
+        const value = Array.isArray(raw) ? raw[0] : raw;
+        return [key, codec.parse(value ?? null)];
+      },
+    ),
+  ) as TParams;
+}
+
+// Only the given keys; null values remove their parameter when merged into the URL
+export function serializeQueryParams<TParams>(
+  params: Partial<TParams>,
+  codecs: QueryParamCodecs<TParams>,
+): Params {
+  return Object.fromEntries(
+    (Object.keys(params) as (keyof TParams & string)[]).map((key) => [
+      key,
+      codecs[key].serialize(params[key] as TParams[typeof key]),
+    ]),
+  );
+}
+
+/**
+ * Treats the query params as the load params: dispatches load whenever the parsed
+ * params of the active URL change (deep links and back/forward included), and turns
+ * changeQueryParams into a navigation, which then triggers that load.
+ */
+export function createRouterLoadEffect<TParams>(
+  actions$: Actions,
+  router: Router,
+  actions: Pick<LoadActionsGroup<unknown, TParams>, 'load'> &
+    QueryParamsActionsGroup<TParams>,
+  config: RouterLoadConfig<TParams>,
+): Observable<Action> {
+  const { codecs, path, replaceUrl = false } = config;
+
+  const load$ = defer(() => {
+    const navigated$ = router.events.pipe(
+      filter((event) => event instanceof NavigationEnd),
+    );
+    // Until the first navigation ends, router.url is '/' rather than the deep link
+    return router.navigated ? navigated$.pipe(startWith(null)) : navigated$;
+  }).pipe(
+    map(() =>
+      path === undefined || router.url.split(/[?#]/)[0] === path
+        ? parseQueryParams(router.routerState.snapshot.root.queryParams, codecs)
+        : null,
+    ),
+    // Leaving the path resets this, so coming back loads again
+    distinctUntilChanged((a, b) => serializeParams(a) === serializeParams(b)),
+    filter((params): params is TParams => params !== null),
+    map((params) => actions.load({ params })),
+  );
+
+  const navigate$ = actions$.pipe(
+    ofType(actions.changeQueryParams),
+    concatMap(({ params }) =>
+      from(
+        router.navigate([], {
+          queryParams: serializeQueryParams(params, codecs),
+          queryParamsHandling: 'merge',
+          replaceUrl,
+        }),
+      ).pipe(
+        ignoreElements(),
+        // A guard or resolver that throws cancels this navigation, not the effect
+        catchError(() => EMPTY),
+      ),
+    ),
+  );
+
+  return merge(load$, navigate$);
+}
@@ -0,0 +1,282 @@
+import { createEntityAdapter } from '@ngrx/entity';
+
+import {
+  createDefaultState,
+  createEntityCollectionState,
+  createHistoryState,
+  createStateError,
+  DefaultState,
+  EntityCollectionState,
+  HistoryState,
+} from './generic-state.models';
+import {
+  createGenericSelectors,
+  createHistorySelectors,
+  pollingFreshness,
+} from './generic-state.selectors';
+
+interface Vulnerability {
+  cve: string;
+  severity: string;
+}
+
+interface FeatureState {
+  findings: DefaultState<Vulnerability[]>;
+  catalog: EntityCollectionState<Vulnerability>;
+}
+
+describe('createGenericSelectors', () => {
+  const items: Vulnerability[] = [
+    { cve: 'CVE-1', severity: 'high' },
+    { cve: 'CVE-2', severity: 'low' },
+  ];
+  const adapter = createEntityAdapter<Vulnerability>({
+    selectId: (item) => item.cve,
+  });
+  const root = {
+    scm: {
+      findings: createDefaultState(items),
+      catalog: {
+        ...adapter.setAll(items, createEntityCollectionState<Vulnerability>()),
+        loaded: true,
+      },
+    } as FeatureState,
+  };
+
+  it('should expose array slices as a keyed collection', () => {
+    const selectors = createGenericSelectors<FeatureState, Vulnerability[]>(
+      'scm',
+      'findings',
+      { selectId: (item) => item.cve },
+    );
+
+    expect(selectors.selectAll(root)).toEqual(items);
+    expect(selectors.selectTotal(root)).toBe(2);
+    expect(selectors.selectById('CVE-2')(root)).toEqual(items[1]);
+  });
+
+  it('should read entity slices through ids and entities', () => {
+    const selectors = createGenericSelectors<FeatureState, Vulnerability[]>(
+      'scm',
+      'catalog',
+    );
+
+    expect(selectors.selectData(root)).toEqual(items);
+    expect(selectors.selectEntities(root)['CVE-1']).toEqual(items[0]);
+    expect(selectors.selectById('CVE-3')(root)).toBeUndefined();
+  });
+
+  it('should report entity slices as empty until loaded', () => {
+    const selectors = createGenericSelectors<FeatureState, Vulnerability[]>(
+      'scm',
+      'catalog',
+    );
+    const empty = {
+      scm: {
+        ...root.scm,
+        catalog: createEntityCollectionState<Vulnerability>(),
+      },
+    };
+
+    expect(selectors.selectData(empty)).toBeNull();
+    expect(selectors.selectTotal(empty)).toBe(0);
+  });
+
+  it('should expose the message and field errors of the latest failure', () => {
+    const selectors = createGenericSelectors<FeatureState, Vulnerability[]>(
+      'scm',
+      'findings',
+    );
+    const failed = {
+      scm: {
+        ...root.scm,
+        findings: {
+          ...root.scm.findings,
+          error: createStateError('Invalid finding', {
+            status: 422,
+            fieldErrors: { severity: ['Unknown severity'] },
+          }),
+        },
+      },
+    };
+
+    expect(selectors.selectErrorMessage(failed)).toBe('Invalid finding');
+    expect(selectors.selectFieldErrors(failed)).toEqual({
+      severity: ['Unknown severity'],
+    });
+    expect(selectors.selectFieldErrors(root)).toEqual({});
+  });
+
+  it('should expose per-entity status for row-level indicators', () => {
+    const selectors = createGenericSelectors<FeatureState, Vulnerability[]>(
+      'scm',
+      'catalog',
+    );
+    const error = createStateError('Forbidden');
+    const busy = {
+      scm: {
+        ...root.scm,
+        catalog: {
+          ...root.scm.catalog,
+          deleting: { 'CVE-1': true },
+          entityErrors: { 'CVE-2': error },
+        },
+      },
+    };
+
+    expect(selectors.selectIsEntityDeleting('CVE-1')(busy)).toBeTrue();
+    expect(selectors.selectIsEntityDeleting('CVE-2')(busy)).toBeFalse();
+    expect(selectors.selectIsEntityUpdating('CVE-1')(busy)).toBeFalse();
+    expect(selectors.selectEntityError('CVE-2')(busy)).toBe(error);
+    expect(selectors.selectEntityError('CVE-1')(busy)).toBeNull();
+  });
+
+  it('should expose the typed params of the last load', () => {
+    const selectors = createGenericSelectors<
+      FeatureState,
+      Vulnerability[],
+      { severity: string }
+    >('scm', 'findings');
+    const filtered = {
+      scm: {
+        ...root.scm,
+        findings: { ...root.scm.findings, lastParams: { severity: 'high' } },
+      },
+    };
+
+    const severity = selectors.selectLastParams(filtered)?.severity;
+    expect(severity).toBe('high');
+    expect(selectors.selectLastParams(root)).toBeNull();
+  });
+});
+
+describe('createGenericSelectors collection queries', () => {
+  interface Finding {
+    id: number;
+    severity: string;
+    score: number | null;
+  }
+  interface ScanState {
+    findings: DefaultState<Finding[]>;
+  }
+
+  const findings: Finding[] = [
+    { id: 1, severity: 'high', score: 7 },
+    { id: 2, severity: 'low', score: null },
+    { id: 3, severity: 'high', score: 9 },
+    { id: 4, severity: 'medium', score: 4 },
+    { id: 5, severity: 'low', score: 2 },
+  ];
+  const root = { scans: { findings: createDefaultState(findings) } };
+  const selectors = createGenericSelectors<ScanState, Finding[]>(
+    'scans',
+    'findings',
+  );
+  const isHigh = (finding: Finding) => finding.severity === 'high';
+
+  it('should hand out the same memoized selector for the same arguments', () => {
+    expect(selectors.selectById(1)).toBe(selectors.selectById(1));
+    expect(selectors.selectWhere(isHigh)).toBe(selectors.selectWhere(isHigh));
+    expect(selectors.selectSortedBy('score', 'desc')).toBe(
+      selectors.selectSortedBy('score', 'desc'),
+    );
+    expect(selectors.selectPage(1, 2)).not.toBe(selectors.selectPage(2, 2));
+
+    const high = selectors.selectWhere(isHigh);
+    expect(high(root)).toBe(high({ scans: { ...root.scans } }));
+  });
+
+  it('should only keep the 100 most recently used selectors per argument list', () => {
+    const evicted = selectors.selectById(0);
+    const kept = selectors.selectById(1);
+    for (let id = 2; id <= 100; id++) {
+      selectors.selectById(id);
+      if (id === 50) selectors.selectById(1);
+    }
+
+    expect(selectors.selectById(1)).toBe(kept);
+    expect(selectors.selectById(0)).not.toBe(evicted);
+  });
+
+  it('should filter and sort with missing values last', () => {
+    const ids = (items: Finding[]) => items.map(({ id }) => id);
+
+    expect(ids(selectors.selectWhere(isHigh)(root))).toEqual([1, 3]);
+    expect(ids(selectors.selectSortedBy('score')(root))).toEqual([
+      5, 4, 1, 3, 2,
+    ]);
+    expect(ids(selectors.selectSortedBy('score', 'desc')(root))).toEqual([
+      3, 1, 4, 5, 2,
+    ]);
+    expect(ids(selectors.selectSortedBy('severity')(root))).toEqual([
+      1, 3, 2, 5, 4,
+    ]);
+  });
+
+  it('should group with counts and page through the collection', () => {
+    expect(
+      selectors
+        .selectGroupBy('severity')(root)
+        .map(({ key, count }) => [key, count]),
+    ).toEqual([
+      ['high', 2],
+      ['low', 2],
+      ['medium', 1],
+    ]);
+    expect(selectors.selectPage(2, 2)(root)).toEqual({
+      items: [findings[2], findings[3]],
+      page: 2,
+      size: 2,
+      total: 5,
+      pageCount: 3,
+    });
+    expect(selectors.selectPage(9, 2)(root).page).toBe(3);
+  });
+});
+
+describe('createHistorySelectors', () => {
+  interface TriageState {
+    history: HistoryState;
+  }
+
+  const selectors = createHistorySelectors<TriageState>('triage', 'history');
+
+  it('should report whether undo and redo are available', () => {
+    const empty = { triage: { history: createHistoryState() } };
+    const undoable = {
+      triage: {
+        history: { ...createHistoryState(), past: [{ data: [] }] },
+      },
+    };
+
+    expect(selectors.selectCanUndo(empty)).toBeFalse();
+    expect(selectors.selectCanRedo(empty)).toBeFalse();
+    expect(selectors.selectCanUndo(undoable)).toBeTrue();
+    expect(selectors.selectCanRedo(undoable)).toBeFalse();
+  });
+});
+
+describe('pollingFreshness', () => {
+  const polling = {
+    status: 'active' as const,
+    intervalMs: 10_000,
+    failures: 0,
+    lastUpdatedAt: 100_000,
+  };
+
+  it('should turn stale after two missed polls and expire after five', () => {
+    expect(pollingFreshness(polling, 120_000)).toBe('fresh');
+    expect(pollingFreshness(polling, 120_001)).toBe('stale');
+    expect(pollingFreshness(polling, 150_001)).toBe('expired');
+  });
+
+  it('should report data that is not being polled as expired', () => {
+    expect(pollingFreshness(null, 100_000)).toBe('expired');
+    expect(pollingFreshness({ ...polling, status: 'stopped' }, 100_000)).toBe(
+      'expired',
+    );
+    expect(pollingFreshness({ ...polling, lastUpdatedAt: null }, 100_000)).toBe(
+      'expired',
+    );
+  });
+});
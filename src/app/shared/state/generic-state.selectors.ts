@@ -0,0 +1,283 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Dictionary, IdSelector } from '@ngrx/entity';
+import { createFeatureSelector, createSelector } from '@ngrx/store';
+
+import {
+  DefaultState,
+  EntityCollectionState,
+  EntityId,
+  EntityOf,
+  HistoryState,
+  isEntityCollection,
+  PollingStatus,
+} from './generic-state.models';
+
+/** ===== Selector Config Types ===== */
+
+export interface GenericSelectorsOptions<TEntity> {
+  // Only needed to key plain DefaultState arrays; entity slices carry their own ids
+  selectId?: IdSelector<TEntity>;
+}
+
+export type PollingFreshness = 'fresh' | 'stale' | 'expired';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface EntityGroup<TEntity> {
+  key: string;
+  items: TEntity[];
+  count: number;
+}
+
+export interface EntityPage<TEntity> {
+  items: TEntity[];
+  // 1-based, clamped to the available pages
+  page: number;
+  size: number;
+  total: number;
+  pageCount: number;
+}
+
+/** ===== Selector Helpers ===== */
+
+const defaultSelectId = (entity: any): EntityId => entity.id;
+
+const noFieldErrors: Record<string, string[]> = {};
+
+// Selectors kept per parameterized selector; the least recently used one goes first
+const argsCacheSize = 100;
+
+// Hands out one selector per argument list, so memoization survives repeated lookups
+function cachePerArgs<A extends unknown[], S>(
+  create: (...args: A) => S,
+): (...args: A) => S {
+  const cache = new Map<string, S>();
+  return (...args) => {
+    const key = JSON.stringify(args);
+    const selector = cache.get(key) ?? create(...args);
+    // Map keeps insertion order, so re-inserting marks the selector as most recent
+    cache.delete(key);
+    cache.set(key, selector);
+    if (cache.size > argsCacheSize) {
+      const [oldest, evicted] = cache.entries().next().value!;
+      cache.delete(oldest);
+      (evicted as { release?: () => void }).release?.();
+    }
+    return selector;
+  };
+}
+
+// Predicates are cached by identity, so pass a stable function rather than an inline one
+function cachePerFunction<F extends object, S>(
+  create: (fn: F) => S,
+): (fn: F) => S {
+  const cache = new WeakMap<F, S>();
+  return (fn) => {
+    if (!cache.has(fn)) cache.set(fn, create(fn));
+    return cache.get(fn)!;
+  };
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  // Missing values sort last in either direction
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.localeCompare(b);
+  }
+  return (a as any) < (b as any) ? -1 : 1;
+}
+
+export function createGenericSelectors<TState, TData, TParams = unknown>(
+  featureName: string,
+  stateKey: keyof TState,
+  options: GenericSelectorsOptions<EntityOf<TData>> = {},
+) {
+  type TEntity = EntityOf<TData>;
+  const selectId = options.selectId ?? defaultSelectId;
+
+  const selectFeature = createFeatureSelector<TState>(featureName);
+  const selectState = createSelector(
+    selectFeature,
+    (state) =>
+      state[stateKey] as
+        DefaultState<TData, TParams> | EntityCollectionState<TEntity, TParams>,
+  );
+
+  const selectAll = createSelector(selectState, (state): TEntity[] =>
+    isEntityCollection(state)
+      ? state.ids.map((id) => state.entities[id] as TEntity)
+      : ((state.data ?? []) as TEntity[]),
+  );
+  const selectEntities = createSelector(
+    selectState,
+    selectAll,
+    (state, all): Dictionary<TEntity> =>
+      isEntityCollection(state)
+        ? state.entities
+        : Object.fromEntries(all.map((entity) => [selectId(entity), entity])),
+  );
+
+  return {
+    selectFeature,
+    selectState,
+    selectData: createSelector(selectState, selectAll, (state, all) =>
+      isEntityCollection(state)
+        ? ((state.loaded ? all : null) as TData | null)
+        : state.data,
+    ),
+    selectError: createSelector(selectState, (state) => state.error),
+    selectErrorMessage: createSelector(
+      selectState,
+      (state) => state.error?.message ?? null,
+    ),
+    // Validation messages of the latest failure, keyed by form field name
+    selectFieldErrors: createSelector(
+      selectState,
+      (state) => state.error?.fieldErrors ?? noFieldErrors,
+    ),
+    selectIsLoading: createSelector(selectState, (state) => state.isLoading),
+    selectIsRefreshing: createSelector(
+      selectState,
+      (state) => state.isRefreshing,
+    ),
+    selectLastLoadedAt: createSelector(
+      selectState,
+      (state) => state.lastLoadedAt,
+    ),
+    // Params of the last successful load, e.g. to render the active filters
+    selectLastParams: createSelector(selectState, (state) => state.lastParams),
+    selectRetry: createSelector(selectState, (state) => state.retry),
+    selectPolling: createSelector(selectState, (state) => state.polling),
+    selectStream: createSelector(selectState, (state) => state.stream),
+    selectBulkResult: createSelector(selectState, (state) => state.bulkResult),
+    selectIsAdding: createSelector(selectState, (state) => state.isAdding),
+    selectIsUpdating: createSelector(selectState, (state) => state.isUpdating),
+    selectIsDeleting: createSelector(selectState, (state) => state.isDeleting),
+    selectAddError: createSelector(selectState, (state) => state.addError),
+    selectUpdateError: createSelector(
+      selectState,
+      (state) => state.updateError,
+    ),
+    selectDeleteError: createSelector(
+      selectState,
+      (state) => state.deleteError,
+    ),
+    // Row-level status for update and delete
+    selectIsEntityUpdating: cachePerArgs((id: EntityId) =>
+      createSelector(selectState, (state) => !!state.updating[id]),
+    ),
+    selectIsEntityDeleting: cachePerArgs((id: EntityId) =>
+      createSelector(selectState, (state) => !!state.deleting[id]),
+    ),
+    selectEntityError: cachePerArgs((id: EntityId) =>
+      createSelector(selectState, (state) => state.entityErrors[id] ?? null),
+    ),
+    selectAll,
+    selectEntities,
+    selectById: cachePerArgs((id: EntityId) =>
+      createSelector(selectEntities, (entities) => entities[id]),
+    ),
+    selectTotal: createSelector(selectAll, (all) => all.length),
+    // Collection queries for widgets, memoized per argument list
+    selectWhere: cachePerFunction((predicate: (entity: TEntity) => boolean) =>
+      createSelector(selectAll, (all) => all.filter(predicate)),
+    ),
+    selectSortedBy: cachePerArgs(
+      (key: keyof TEntity, direction: SortDirection = 'asc') =>
+        createSelector(selectAll, (all) => {
+          const sign = direction === 'asc' ? 1 : -1;
+          return [...all].sort((a, b) => {
+            const order = compareValues(a[key], b[key]);
+            const missing = a[key] == null || b[key] == null;
+            return missing ? order : sign * order;
+          });
+        }),
+    ),
+    // Groups in order of first appearance
+    selectGroupBy: cachePerArgs((key: keyof TEntity) =>
+      createSelector(selectAll, (all): EntityGroup<TEntity>[] => {
+        const groups = new Map<string, TEntity[]>();
+        all.forEach((entity) => {
+          const group = String(entity[key]);
+          const items = groups.get(group);
+          if (items) items.push(entity);
+          else groups.set(group, [entity]);
+        });
+        return [...groups].map(([group, items]) => ({
+          key: group,
+          items,
+          count: items.length,
+        }));
+      }),
+    ),
+    selectPage: cachePerArgs((page: number, size: number) =>
+      createSelector(selectAll, (all): EntityPage<TEntity> => {
+        const pageCount = Math.max(1, Math.ceil(all.length / size));
+        const current = Math.min(Math.max(1, page), pageCount);
+        return {
+          items: all.slice((current - 1) * size, current * size),
+          page: current,
+          size,
+          total: all.length,
+          pageCount,
+        };
+      }),
+    ),
+  };
+}
+
+// Selectors for the HistoryState kept by createHistoryMetaReducer
+export function createHistorySelectors<TState>(
+  featureName: string,
+  historyKey: keyof TState,
+) {
+  const selectHistory = createPropertySelector<TState, HistoryState>(
+    featureName,
+    historyKey,
+  );
+  return {
+    selectHistory,
+    selectCanUndo: createSelector(
+      selectHistory,
+      (history) => history.past.length > 0,
+    ),
+    selectCanRedo: createSelector(
+      selectHistory,
+      (history) => history.future.length > 0,
+    ),
+  };
+}
+
+/**
+ * Green/amber/red state of polled data at `now`: stale once two polls were missed,
+ * expired after five or when polling is not running.
+ */
+export function pollingFreshness(
+  polling: PollingStatus | null,
+  now: number,
+): PollingFreshness {
+  if (
+    !polling ||
+    polling.status === 'stopped' ||
+    polling.lastUpdatedAt === null
+  ) {
+    return 'expired';
+  }
+  const missed = (now - polling.lastUpdatedAt) / polling.intervalMs;
+  if (missed > 5) return 'expired';
+  return missed > 2 ? 'stale' : 'fresh';
+}
+
+// Helper to create selectors for additional state properties
+export function createPropertySelector<TState, TProperty>(
+  featureName: string,
+  propertyKey: keyof TState,
+) {
+  const selectFeature = createFeatureSelector<TState>(featureName);
+  return createSelector(
+    selectFeature,
+    (state) => state[propertyKey] as TProperty,
+  );
+}
@@ -0,0 +1,128 @@
+import { TestBed } from '@angular/core/testing';
+import { signalStore } from '@ngrx/signals';
+import { of, Subject, throwError } from 'rxjs';
+
+import { withAsyncState, withCrud } from './generic-state.signals';
+
+interface Scan {
+  id: number;
+  target: string;
+}
+
+describe('SignalStore features', () => {
+  describe('withAsyncState', () => {
+    let loadService: jasmine.Spy;
+
+    function setup(staleWhileRevalidate = false) {
+      const ScanStore = signalStore(
+        withAsyncState<Scan[]>({
+          services: () => ({ load: loadService }),
+          loadConfig: {
+            successMessage: (scans) => `Loaded ${scans.length} scans`,
+          },
+          staleWhileRevalidate,
+        }),
+      );
+      TestBed.configureTestingModule({ providers: [ScanStore] });
+      return TestBed.inject(ScanStore);
+    }
+
+    beforeEach(() => {
+      loadService = jasmine
+        .createSpy('loadService')
+        .and.returnValue(of([{ id: 1, target: 'api' }]));
+    });
+
+    it('should load data and expose the success message', () => {
+      const store = setup();
+
+      store.load();
+
+      expect(store.data()).toEqual([{ id: 1, target: 'api' }]);
+      expect(store.isLoading()).toBeFalse();
+      expect(store.message()).toBe('Loaded 1 scans');
+    });
+
+    it('should skip loads that are cached unless forceReload is set', () => {
+      const store = setup();
+
+      store.load();
+      store.load();
+      store.load({ forceReload: true });
+
+      expect(loadService).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep data visible while revalidating', () => {
+      const store = setup(true);
+      store.load();
+      const pending = new Subject<Scan[]>();
+      loadService.and.returnValue(pending);
+
+      store.load({ forceReload: true });
+
+      expect(store.isRefreshing()).toBeTrue();
+      expect(store.data()?.length).toBe(1);
+    });
+
+    it('should record failures and restore the initial state on reset', () => {
+      loadService.and.returnValue(
+        throwError(() => ({ status: 500, message: 'Scanner offline' })),
+      );
+      const store = setup();
+
+      store.load();
+      expect(store.error()?.message).toBe('Scanner offline');
+      expect(store.error()?.status).toBe(500);
+
+      store.reset();
+      expect(store.error()).toBeNull();
+    });
+  });
+
+  describe('withCrud', () => {
+    it('should run the add, update and delete lifecycle', () => {
+      const deletion = new Subject<void>();
+      const ScanStore = signalStore(
+        withCrud<Scan[], Omit<Scan, 'id'>, Partial<Scan>, Scan>({
+          initialData: [],
+          services: () => ({
+            load: () => of([]),
+            add: (payload) => of({ id: 2, ...payload }),
+            update: (id, payload) =>
+              of({ id: id as number, target: 'web', ...payload }),
+            delete: () => deletion,
+          }),
+          onAddSuccess: (state, item) => ({
+            data: [...(state.data ?? []), item],
+          }),
+          onUpdateSuccess: (state, item) => ({
+            data: (state.data ?? []).map((scan) =>
+              scan.id === item.id ? item : scan,
+            ),
+          }),
+          onDeleteSuccess: (state, id) => ({
+            data: (state.data ?? []).filter((scan) => scan.id !== id),
+          }),
+        }),
+      );
+      TestBed.configureTestingModule({ providers: [ScanStore] });
+      const store = TestBed.inject(ScanStore);
+
+      store.add({ target: 'api' });
+      expect(store.data()).toEqual([{ id: 2, target: 'api' }]);
+
+      store.update(2, { target: 'cdn' });
+      expect(store.data()).toEqual([{ id: 2, target: 'cdn' }]);
+
+      store.delete(2);
+      expect(store.isDeleting()).toBeTrue();
+      expect(store.deleting()).toEqual({ 2: true });
+
+      deletion.next();
+      deletion.complete();
+      expect(store.data()).toEqual([]);
+      expect(store.isDeleting()).toBeFalse();
+    });
+  });
+});
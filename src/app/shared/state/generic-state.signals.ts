@@ -0,0 +1,264 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Actions } from '@ngrx/effects';
+import { Action } from '@ngrx/store';
+import {
+  EmptyFeatureResult,
+  getState,
+  patchState,
+  signalStoreFeature,
+  SignalStoreFeature,
+  withMethods,
+  withState,
+  WritableStateSource,
+} from '@ngrx/signals';
+import { BehaviorSubject, merge, Observable, Subject } from 'rxjs';
+
+import { createCrudActions, DeleteId } from './generic-state.actions';
+import {
+  AddEffectConfig,
+  createAddEffect,
+  createDeleteEffect,
+  createLoadEffect,
+  createUpdateEffect,
+  DeleteEffectConfig,
+  LoadEffectConfig,
+  UpdateEffectConfig,
+} from './generic-state.effects';
+import {
+  createDefaultState,
+  DefaultState,
+  EntityId,
+} from './generic-state.models';
+import { createGenericReducer } from './generic-state.reducer';
+
+/** ===== Signal Store Config Types ===== */
+
+export interface LoadServices<TData, TParams = any> {
+  load: (params?: TParams) => Observable<TData>;
+}
+
+export interface CrudServices<
+  TData,
+  TAdd = TData,
+  TUpdate = TData,
+  TItem = any,
+  TParams = any,
+> extends LoadServices<TData, TParams> {
+  add: (payload: TAdd) => Observable<TItem>;
+  update: (id: EntityId, payload: TUpdate) => Observable<TItem>;
+  delete: (id: DeleteId) => Observable<unknown>;
+}
+
+export interface AsyncStateConfig<TData, TParams = any> {
+  // Prefix of the action types used internally, e.g. "[Vulnerabilities] Load"
+  feature?: string;
+  initialData?: TData | null;
+  // Called in an injection context, so services can be inject()ed here
+  services: () => LoadServices<TData, TParams>;
+  loadConfig?: Omit<LoadEffectConfig<TData>, 'store' | 'selector' | 'state$'>;
+  staleWhileRevalidate?: boolean;
+}
+
+export interface CrudConfig<
+  TData,
+  TAdd = TData,
+  TUpdate = TData,
+  TItem = any,
+  TParams = any,
+> extends Omit<AsyncStateConfig<TData, TParams>, 'services'> {
+  services: () => CrudServices<TData, TAdd, TUpdate, TItem, TParams>;
+  addConfig?: AddEffectConfig<TItem, TAdd>;
+  updateConfig?: UpdateEffectConfig<TItem, TUpdate>;
+  deleteConfig?: DeleteEffectConfig;
+  // Same contract as the classic reducer callbacks, applied to the store's DefaultState
+  onAddSuccess?: (
+    state: DefaultState<TData>,
+    item: TItem,
+  ) => Partial<DefaultState<TData>>;
+  onUpdateSuccess?: (
+    state: DefaultState<TData>,
+    item: TItem,
+  ) => Partial<DefaultState<TData>>;
+  onDeleteSuccess?: (
+    state: DefaultState<TData>,
+    id: DeleteId,
+  ) => Partial<DefaultState<TData>>;
+}
+
+export type SignalSliceState<TData> = DefaultState<TData> & {
+  // successMessage of the most recent successful operation
+  message: string | null;
+};
+
+// Type aliases rather than interfaces: SignalStore methods need an index signature
+export type AsyncStateMethods<TParams = any> = {
+  load: (props?: { params?: TParams; forceReload?: boolean }) => void;
+  reset: () => void;
+};
+
+export type CrudMethods<
+  TAdd,
+  TUpdate,
+  TParams = any,
+> = AsyncStateMethods<TParams> & {
+  add: (payload: TAdd) => void;
+  update: (id: EntityId, payload: TUpdate) => void;
+  delete: (id: DeleteId) => void;
+};
+
+/** ===== Signal Store Helpers ===== */
+
+interface SliceWrapper<TData> {
+  slice: DefaultState<TData>;
+}
+
+// Adapts a DefaultState callback to the wrapper state the classic reducer sees
+function wrapCallback<TData, TArg>(
+  callback:
+    | ((state: DefaultState<TData>, arg: TArg) => Partial<DefaultState<TData>>)
+    | undefined,
+) {
+  return (
+    callback &&
+    ((state: SliceWrapper<TData>, arg: TArg) => ({
+      slice: { ...state.slice, ...callback(state.slice, arg) },
+    }))
+  );
+}
+
+// Feeds a private action stream through the classic reducer and effects, so both
+// flavours share one implementation of the lifecycle
+function connectSlice<TData>(
+  store: WritableStateSource<SignalSliceState<TData>>,
+  config: Omit<CrudConfig<TData, any, any, any>, 'services'>,
+  services: Partial<CrudServices<TData, any, any, any>> & LoadServices<TData>,
+) {
+  const actions = createCrudActions<TData, any, any, any>(
+    config.feature ?? 'Signal Store',
+  );
+  const reducer = createGenericReducer<SliceWrapper<TData>, TData>({
+    actions,
+    initialState: { slice: createDefaultState(config.initialData ?? null) },
+    stateKey: 'slice',
+    staleWhileRevalidate: config.staleWhileRevalidate,
+    onAddSuccess: wrapCallback(config.onAddSuccess),
+    onUpdateSuccess: wrapCallback(config.onUpdateSuccess),
+    onDeleteSuccess: wrapCallback(config.onDeleteSuccess),
+  });
+
+  const source = new Subject<Action>();
+  const actions$ = new Actions(source);
+  const slice$ = new BehaviorSubject<DefaultState<TData>>(getState(store));
+
+  // Like the global Store: reduce first, then let the effects see the action
+  const dispatch = (action: Action) => {
+    const { slice } = reducer({ slice: getState(store) }, action);
+    const message =
+      'message' in action ? ((action.message as string) ?? null) : undefined;
+    patchState(store, message === undefined ? slice : { ...slice, message });
+    slice$.next(slice);
+    source.next(action);
+  };
+
+  merge(
+    createLoadEffect(actions$, actions, services.load, {
+      ...config.loadConfig,
+      state$: slice$,
+    }),
+    services.add
+      ? createAddEffect(actions$, actions, services.add, config.addConfig)
+      : [],
+    services.update
+      ? createUpdateEffect(
+          actions$,
+          actions,
+          services.update,
+          config.updateConfig,
+        )
+      : [],
+    services.delete
+      ? createDeleteEffect(
+          actions$,
+          actions,
+          services.delete,
+          config.deleteConfig,
+        )
+      : [],
+  )
+    .pipe(takeUntilDestroyed())
+    .subscribe(dispatch);
+
+  return { actions, dispatch };
+}
+
+function createSignalSliceState<TData>(
+  initialData: TData | null | undefined,
+): SignalSliceState<TData> {
+  return { ...createDefaultState(initialData ?? null), message: null };
+}
+
+/** DefaultState plus load/reset methods, backed by the classic load reducer and effect. */
+export function withAsyncState<TData, TParams = any>(
+  config: AsyncStateConfig<TData, TParams>,
+): SignalStoreFeature<
+  EmptyFeatureResult,
+  {
+    state: SignalSliceState<TData>;
+    computed: EmptyFeatureResult['computed'];
+    methods: AsyncStateMethods<TParams>;
+  }
+> {
+  const { services, ...options } = config;
+  return signalStoreFeature(
+    withState(createSignalSliceState<TData>(config.initialData)),
+    withMethods((store): AsyncStateMethods<TParams> => {
+      const { actions, dispatch } = connectSlice<TData>(
+        store,
+        options,
+        services(),
+      );
+      return {
+        load: (props = {}) => dispatch(actions.load(props)),
+        reset: () => dispatch(actions.reset()),
+      };
+    }),
+  );
+}
+
+/** withAsyncState plus add/update/delete methods, backed by the classic CRUD helpers. */
+export function withCrud<
+  TData,
+  TAdd = TData,
+  TUpdate = TData,
+  TItem = any,
+  TParams = any,
+>(
+  config: CrudConfig<TData, TAdd, TUpdate, TItem, TParams>,
+): SignalStoreFeature<
+  EmptyFeatureResult,
+  {
+    state: SignalSliceState<TData>;
+    computed: EmptyFeatureResult['computed'];
+    methods: CrudMethods<TAdd, TUpdate, TParams>;
+  }
+> {
+  const { services, ...options } = config;
+  return signalStoreFeature(
+    withState(createSignalSliceState<TData>(config.initialData)),
+    withMethods((store): CrudMethods<TAdd, TUpdate, TParams> => {
+      const { actions, dispatch } = connectSlice<TData>(
+        store,
+        options,
+        services(),
+      );
+      return {
+        load: (props = {}) => dispatch(actions.load(props)),
+        reset: () => dispatch(actions.reset()),
+        add: (payload) => dispatch(actions.add({ payload })),
+        update: (id, payload) => dispatch(actions.update({ id, payload })),
+        delete: (id) => dispatch(actions.delete({ id })),
+      };
+    }),
+  );
+}
@@ -0,0 +1,194 @@
+import { Actions } from '@ngrx/effects';
+import { Action } from '@ngrx/store';
+import { Subject, Subscription } from 'rxjs';
+
+import {
+  createStreamActions,
+  responseValidationFailed,
+} from './generic-state.actions';
+import {
+  createDefaultState,
+  createEntityCollectionState,
+  DefaultState,
+  EntityCollectionState,
+} from './generic-state.models';
+import { createGenericReducer } from './generic-state.reducer';
+import {
+  createStreamEffect,
+  serverSentEventsSource,
+  StreamEffectConfig,
+} from './generic-state.stream';
+import { MockStreamServer } from './testing/mock-stream-server';
+
+interface Finding {
+  id: number;
+  severity: string;
+}
+
+interface ScannerState {
+  findings: EntityCollectionState<Finding>;
+}
+
+describe('createStreamEffect', () => {
+  const FindingActions = createStreamActions<Finding>('Finding Feed');
+  const reducer = createGenericReducer<ScannerState, Finding[]>({
+    actions: FindingActions,
+    initialState: { findings: createEntityCollectionState<Finding>() },
+    stateKey: 'findings',
+    entity: {},
+  });
+  const status = (
+    status: 'connecting' | 'open' | 'closed' | 'error',
+    attempt = 0,
+  ) => jasmine.objectContaining({ status, attempt });
+
+  let server: MockStreamServer;
+  let source: Subject<Action>;
+  let emitted: Action[];
+  let subscription: Subscription;
+
+  function connect(config: Partial<StreamEffectConfig<Finding>> = {}) {
+    subscription = createStreamEffect(new Actions(source), FindingActions, {
+      url: 'wss://scanner.test/findings',
+      ...config,
+    }).subscribe((action) => emitted.push(action));
+    source.next(FindingActions.connect({}));
+  }
+
+  const statuses = () =>
+    emitted
+      .filter(
+        (action) => action.type === FindingActions.streamStatusChanged.type,
+      )
+      .map((action) => (action as unknown as { status: string }).status);
+
+  beforeEach(() => {
+    server = new MockStreamServer().start();
+    source = new Subject<Action>();
+    emitted = [];
+    jasmine.clock().install();
+  });
+
+  afterEach(() => {
+    subscription?.unsubscribe();
+    jasmine.clock().uninstall();
+    server.stop();
+  });
+
+  it('should map messages to upsert and remove until disconnected', () => {
+    connect();
+    server.accept();
+    server.send({ upsert: [{ id: 1, severity: 'high' }] });
+    server.send({ remove: [1], upsert: [] });
+    source.next(FindingActions.disconnect());
+
+    expect(server.clients[0].url).toBe('wss://scanner.test/findings');
+    expect(server.clients[0].closed).toBeTrue();
+    expect(emitted).toEqual([
+      status('connecting'),
+      status('open'),
+      FindingActions.upsert({ items: [{ id: 1, severity: 'high' }] }),
+      FindingActions.remove({ ids: [1] }),
+      status('closed'),
+    ]);
+  });
+
+  it('should skip messages it cannot decode without closing the connection', () => {
+    connect();
+    server.accept();
+    server.clients[0].onmessage?.({ data: 'not json' });
+    server.send({ upsert: [{ id: 1, severity: 'high' }] });
+
+    expect(emitted).toEqual([
+      status('connecting'),
+      status('open'),
+      jasmine.objectContaining({
+        type: responseValidationFailed.type,
+        action: FindingActions.connect({}),
+      }),
+      FindingActions.upsert({ items: [{ id: 1, severity: 'high' }] }),
+    ]);
+    expect(server.connected.length).toBe(1);
+  });
+
+  it('should reconnect with exponential backoff after the connection drops', () => {
+    connect({ reconnect: { backoffMs: 1_000, jitter: 0 } });
+    server.accept();
+    server.disconnect(false);
+    expect(emitted[emitted.length - 1]).toEqual(
+      jasmine.objectContaining({
+        status: 'error',
+        error: jasmine.objectContaining({
+          message: 'WebSocket closed with code 1006',
+        }),
+      }),
+    );
+
+    jasmine.clock().tick(1_000);
+    expect(server.connected.length).toBe(1);
+    server.disconnect();
+    jasmine.clock().tick(1_999);
+    expect(server.clients.length).toBe(2);
+    jasmine.clock().tick(1);
+    server.accept();
+
+    expect(statuses()).toEqual([
+      'connecting',
+      'open',
+      'error',
+      'connecting',
+      'closed',
+      'connecting',
+      'open',
+    ]);
+    expect(emitted[3]).toEqual(status('connecting', 1));
+    expect(emitted[5]).toEqual(status('connecting', 2));
+  });
+
+  it('should give up after the configured number of reconnects', () => {
+    connect({ reconnect: { maxAttempts: 1, backoffMs: 10, jitter: 0 } });
+    server.disconnect(false);
+    jasmine.clock().tick(10);
+    server.disconnect(false);
+    jasmine.clock().tick(1_000);
+
+    expect(server.clients.length).toBe(2);
+    expect(statuses()).toEqual(['connecting', 'error', 'connecting', 'error']);
+  });
+
+  it('should keep an entity collection in sync over server-sent events', () => {
+    connect({
+      url: '/api/findings/events',
+      source: serverSentEventsSource(),
+      toChanges: (event: { op: 'put' | 'delete'; finding: Finding }) =>
+        event.op === 'put'
+          ? { upsert: [event.finding] }
+          : { remove: [event.finding.id] },
+    });
+    server.accept();
+    server.send({ op: 'put', finding: { id: 1, severity: 'low' } });
+    server.send({ op: 'put', finding: { id: 2, severity: 'high' } });
+    server.send({ op: 'put', finding: { id: 1, severity: 'critical' } });
+    server.send({ op: 'delete', finding: { id: 2, severity: 'high' } });
+
+    const state = emitted.reduce(reducer, undefined as unknown as ScannerState);
+    expect(server.clients[0].kind).toBe('eventsource');
+    expect(state.findings.ids).toEqual([1]);
+    expect(state.findings.entities[1]?.severity).toBe('critical');
+    expect(state.findings.stream).toEqual({
+      status: 'open',
+      error: null,
+      attempt: 0,
+    });
+  });
+
+  it('should require entity options in the reducer', () => {
+    expect(() =>
+      createGenericReducer<{ findings: DefaultState<Finding[]> }, Finding[]>({
+        actions: FindingActions,
+        initialState: { findings: createDefaultState<Finding[]>() },
+        stateKey: 'findings',
+      }),
+    ).toThrowError(/require entity options/);
+  });
+});
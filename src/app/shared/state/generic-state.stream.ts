@@ -0,0 +1,194 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Actions, ofType } from '@ngrx/effects';
+import { Action } from '@ngrx/store';
+import {
+  catchError,
+  concat,
+  defer,
+  EMPTY,
+  from,
+  map,
+  merge,
+  mergeMap,
+  Observable,
+  of,
+  switchMap,
+  take,
+  takeUntil,
+  timer,
+} from 'rxjs';
+
+import {
+  responseValidationFailed,
+  StreamActionsGroup,
+} from './generic-state.actions';
+import {
+  EffectConfig,
+  retryDelay,
+  RetryPolicy,
+  toStateError,
+} from './generic-state.effects';
+import {
+  EntityId,
+  StateError,
+  StreamConnectionStatus,
+} from './generic-state.models';
+
+/** ===== Stream Config Types ===== */
+
+export type StreamEvent = { type: 'open' } | { type: 'message'; data: string };
+
+// Opens a connection per subscription; completes when the server closes it and errors when it fails
+export type StreamSource = (url: string) => Observable<StreamEvent>;
+
+/** Entities a message adds or replaces and ids it deletes. */
+export interface StreamChanges<TEntity> {
+  upsert?: TEntity[];
+  remove?: EntityId[];
+}
+
+export interface StreamEffectConfig<TEntity = any, TMessage = any> extends Pick<
+  EffectConfig,
+  'errorMessage'
+> {
+  url: string;
+  // Defaults to webSocketSource()
+  source?: StreamSource;
+  // Decodes message data; defaults to JSON.parse
+  parse?: (data: string) => TMessage;
+  // Defaults to reading the message itself as StreamChanges
+  toChanges?: (message: TMessage) => StreamChanges<TEntity>;
+  // Delays between reconnects (1 second doubling up to 30 by default); maxAttempts
+  // limits the reconnects after a connection was lost and is unlimited by default
+  reconnect?: Partial<RetryPolicy>;
+}
+
+/** ===== Stream Helpers ===== */
+
+export function webSocketSource(protocols?: string | string[]): StreamSource {
+  return (url) =>
+    new Observable<StreamEvent>((subscriber) => {
+      const socket = new WebSocket(url, protocols);
+      socket.onopen = () => subscriber.next({ type: 'open' });
+      socket.onmessage = ({ data }) =>
+        subscriber.next({ type: 'message', data });
+      socket.onclose = ({ wasClean, code }) =>
+        wasClean
+          ? subscriber.complete()
+          : subscriber.error(new Error(`WebSocket closed with code ${code}`));
+
+      return () => {
+        socket.onclose = null;
+        socket.close();
+      };
+    });
+}
+
+export function serverSentEventsSource(init?: EventSourceInit): StreamSource {
+  return (url) =>
+    new Observable<StreamEvent>((subscriber) => {
+      const source = new EventSource(url, init);
+      source.onopen = () => subscriber.next({ type: 'open' });
+      source.onmessage = ({ data }) =>
+        subscriber.next({ type: 'message', data });
+      // EventSource would reconnect on its own; createStreamEffect owns reconnects instead
+      source.onerror = () => {
+        source.close();
+        subscriber.error(new Error('Event stream connection lost'));
+      };
+
+      return () => source.close();
+    });
+}
+
+/**
+ * Keeps a connection to the feed from connect until disconnect, dispatching upsert and
+ * remove for the changes each message carries. Lost connections are reopened with
+ * exponential backoff; every transition is reported through streamStatusChanged.
+ */
+export function createStreamEffect<TEntity, TMessage = StreamChanges<TEntity>>(
+  actions$: Actions,
+  actions: StreamActionsGroup<TEntity>,
+  config: StreamEffectConfig<TEntity, TMessage>,
+): Observable<Action> {
+  const { source = webSocketSource(), reconnect = {} } = config;
+  const parse = config.parse ?? ((data: string) => JSON.parse(data));
+  const toChanges =
+    config.toChanges ??
+    ((message: TMessage) => message as StreamChanges<TEntity>);
+  const maxAttempts = reconnect.maxAttempts ?? Infinity;
+  const policy: RetryPolicy = { backoffMs: 1_000, ...reconnect, maxAttempts };
+
+  // A message that cannot be decoded is reported and skipped; the connection stays open
+  const changeActions = (data: string, connect: Action): Action[] => {
+    try {
+      const { upsert, remove } = toChanges(parse(data));
+      return [
+        ...(upsert?.length ? [actions.upsert({ items: upsert })] : []),
+        ...(remove?.length ? [actions.remove({ ids: remove })] : []),
+      ];
+    } catch (error: any) {
+      return [
+        responseValidationFailed({
+          action: connect,
+          issues: [{ path: [], message: error?.message ?? String(error) }],
+        }),
+      ];
+    }
+  };
+
+  return actions$.pipe(
+    ofType(actions.connect),
+    switchMap((action) => {
+      const url = action.url ?? config.url;
+      const status = (
+        status: StreamConnectionStatus,
+        attempt: number,
+        error: StateError | null = null,
+      ) => actions.streamStatusChanged({ status, error, attempt });
+
+      const connection = defer(() => {
+        let attempt = 0;
+        const connect = (): Observable<Action> => {
+          let lost: StateError | null = null;
+          return concat(
+            of(status('connecting', attempt)),
+            source(url).pipe(
+              mergeMap((event) => {
+                if (event.type === 'open') {
+                  attempt = 0;
+                  return of(status('open', attempt));
+                }
+                return from(changeActions(event.data, action));
+              }),
+              catchError((error: any) => {
+                lost = toStateError(error, action, config, 'Stream failed');
+                return EMPTY;
+              }),
+            ),
+            defer(() => {
+              const closed = of(
+                status(lost ? 'error' : 'closed', attempt, lost),
+              );
+              attempt += 1;
+              return attempt > maxAttempts
+                ? closed
+                : concat(
+                    closed,
+                    timer(retryDelay(policy, attempt)).pipe(switchMap(connect)),
+                  );
+            }),
+          );
+        };
+        return connect();
+      });
+
+      // Stays subscribed after giving up, so a final disconnect is still reported
+      const disconnect$ = actions$.pipe(ofType(actions.disconnect), take(1));
+      return merge(
+        connection.pipe(takeUntil(disconnect$)),
+        disconnect$.pipe(map(() => status('closed', 0))),
+      );
+    }),
+  );
+}
@@ -0,0 +1,183 @@
+import { Actions } from '@ngrx/effects';
+import { Action } from '@ngrx/store';
+import { BehaviorSubject, Subject, Subscription } from 'rxjs';
+
+import { createCrudActions, tabStateSynced } from './generic-state.actions';
+import { createDefaultState, DefaultState } from './generic-state.models';
+import { createGenericReducer } from './generic-state.reducer';
+import {
+  createTabSyncEffect,
+  createTabSyncMetaReducer,
+  isSyncedAction,
+} from './generic-state.sync';
+
+interface Finding {
+  id: number;
+  status: string;
+}
+
+interface TriageState {
+  findings: DefaultState<Finding[]>;
+  currentPageNumber: number;
+}
+
+// BroadcastChannel delivers messages asynchronously
+const delivered = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe('createTabSyncEffect', () => {
+  const FindingActions = createCrudActions<Finding[]>('Finding');
+  const data = [{ id: 1, status: 'open' }];
+  let subscriptions: Subscription;
+
+  // Each call stands for one browser tab
+  function openTab(
+    mode: 'actions' | 'snapshot',
+    state$?: BehaviorSubject<TriageState>,
+  ) {
+    const source = new Subject<Action>();
+    const received: Action[] = [];
+    subscriptions.add(
+      createTabSyncEffect(
+        new Actions(source),
+        {
+          channel: `triage-${mode}`,
+          actions: [FindingActions.loadSuccess, FindingActions.updateSuccess],
+          mode,
+          keys: ['findings'],
+        },
+        state$,
+      ).subscribe((action) => received.push(action)),
+    );
+    return { source, received };
+  }
+
+  beforeEach(() => (subscriptions = new Subscription()));
+
+  afterEach(() => subscriptions.unsubscribe());
+
+  it('should replay the configured actions in other tabs without echoes', async () => {
+    const first = openTab('actions');
+    const second = openTab('actions');
+
+    first.source.next(FindingActions.loadSuccess({ data }));
+    first.source.next(FindingActions.load({}));
+    await delivered();
+
+    expect(first.received).toEqual([]);
+    expect(second.received.length).toBe(1);
+    const [replayed] = second.received;
+    expect(isSyncedAction(replayed)).toBeTrue();
+    expect(replayed).toEqual(
+      jasmine.objectContaining(FindingActions.loadSuccess({ data })),
+    );
+
+    second.source.next(replayed);
+    await delivered();
+    expect(first.received).toEqual([]);
+  });
+
+  it('should send the feature state in snapshot mode', async () => {
+    const state$ = new BehaviorSubject<TriageState>({
+      findings: { ...createDefaultState(data), isLoading: true },
+      currentPageNumber: 2,
+    });
+    const first = openTab('snapshot', state$);
+    const second = openTab('snapshot', state$);
+
+    first.source.next(FindingActions.loadSuccess({ data }));
+    await delivered();
+
+    expect(second.received).toEqual([
+      tabStateSynced({
+        channel: 'triage-snapshot',
+        state: {
+          findings: jasmine.objectContaining({ data }) as unknown,
+        },
+      }),
+    ]);
+    const { state } = second.received[0] as ReturnType<typeof tabStateSynced>;
+    expect('isLoading' in (state['findings'] as object)).toBeFalse();
+  });
+
+  it('should report messages that cannot be posted and keep syncing', async () => {
+    const onError = jasmine.createSpy('onError');
+    const source = new Subject<Action>();
+    subscriptions.add(
+      createTabSyncEffect(new Actions(source), {
+        channel: 'triage-actions',
+        actions: [FindingActions.updateSuccess],
+        onError,
+      }).subscribe(),
+    );
+    const other = openTab('actions');
+
+    source.next(FindingActions.updateSuccess({ item: () => data }));
+    source.next(FindingActions.updateSuccess({ item: data }));
+    await delivered();
+
+    expect(onError).toHaveBeenCalledOnceWith(jasmine.any(DOMException));
+    expect(other.received.length).toBe(1);
+  });
+
+  it('should complete without syncing where BroadcastChannel is missing', () => {
+    const { BroadcastChannel } = globalThis;
+    delete (globalThis as Partial<typeof globalThis>).BroadcastChannel;
+    const complete = jasmine.createSpy('complete');
+    try {
+      createTabSyncEffect(new Actions(new Subject()), {
+        channel: 'triage',
+        actions: [],
+      }).subscribe({ complete });
+    } finally {
+      globalThis.BroadcastChannel = BroadcastChannel;
+    }
+
+    expect(complete).toHaveBeenCalled();
+  });
+
+  it('should require the feature state in snapshot mode', () => {
+    expect(() =>
+      createTabSyncEffect(new Actions(new Subject()), {
+        channel: 'triage',
+        actions: [],
+        mode: 'snapshot',
+      }),
+    ).toThrowError(/requires the feature state\$/);
+  });
+});
+
+describe('createTabSyncMetaReducer', () => {
+  const FindingActions = createCrudActions<Finding[]>('Finding');
+  const reducer = createTabSyncMetaReducer<TriageState>({
+    channel: 'triage',
+  })(
+    createGenericReducer<TriageState, Finding[]>({
+      actions: FindingActions,
+      initialState: {
+        findings: createDefaultState<Finding[]>(),
+        currentPageNumber: 1,
+      },
+      stateKey: 'findings',
+    }),
+  );
+
+  it('should merge snapshots from the same channel only', () => {
+    const loading = reducer(undefined, FindingActions.load({}));
+    const snapshot = {
+      findings: { data: [{ id: 1, status: 'fixed' }] },
+      currentPageNumber: 4,
+    };
+
+    const synced = reducer(
+      loading,
+      tabStateSynced({ channel: 'triage', state: snapshot }),
+    );
+    expect(synced.findings.data).toEqual([{ id: 1, status: 'fixed' }]);
+    expect(synced.findings.isLoading).toBeTrue();
+    expect(synced.currentPageNumber).toBe(4);
+
+    expect(
+      reducer(loading, tabStateSynced({ channel: 'other', state: snapshot })),
+    ).toBe(loading);
+  });
+});
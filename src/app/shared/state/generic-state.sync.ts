@@ -0,0 +1,121 @@
+import { Actions, ofType } from '@ngrx/effects';
+import { Action, ActionCreator, MetaReducer } from '@ngrx/store';
+import { EMPTY, filter, Observable, of, withLatestFrom } from 'rxjs';
+
+import { createCorrelationId, tabStateSynced } from './generic-state.actions';
+import {
+  mergePersistedState,
+  pickPersistedState,
+} from './generic-state.persistence';
+
+/** ===== Tab Sync Config Types ===== */
+
+// 'actions' replays the actions in other tabs; 'snapshot' sends the state they produced
+export type TabSyncMode = 'actions' | 'snapshot';
+
+export interface TabSyncConfig<TState> {
+  // BroadcastChannel name, shared by every tab of the feature
+  channel: string;
+  // Actions shared with other tabs, e.g. [actions.loadSuccess, actions.updateSuccess]
+  actions: readonly ActionCreator[];
+  mode?: TabSyncMode;
+  // Feature state properties sent in snapshot mode; defaults to all of them
+  keys?: readonly (keyof TState)[];
+  // Called when a message cannot be posted, e.g. a payload that cannot be cloned; it is skipped silently by default
+  onError?: (error: unknown) => void;
+}
+
+// Replayed actions carry the id of the tab they came from
+export type SyncedAction = Action & { syncedFrom: string };
+
+interface TabSyncMessage {
+  origin: string;
+  action?: Action;
+  state?: Record<string, unknown>;
+}
+
+/** ===== Tab Sync Helpers ===== */
+
+export function isSyncedAction(action: Action): action is SyncedAction {
+  return 'syncedFrom' in action;
+}
+
+/**
+ * Posts the configured actions (or the feature state after them) to other tabs and
+ * emits what other tabs post. Replayed actions are never posted again.
+ */
+export function createTabSyncEffect<TState>(
+  actions$: Actions,
+  config: TabSyncConfig<TState>,
+  state$?: Observable<TState>,
+): Observable<Action> {
+  const {
+    channel: name,
+    mode = 'actions',
+    keys,
+    onError = () => undefined,
+  } = config;
+  if (mode === 'snapshot' && !state$) {
+    throw new Error(`Snapshot sync of "${name}" requires the feature state$`);
+  }
+  // Server-side rendering and older browsers have no BroadcastChannel; the tab then stays unsynced
+  if (typeof BroadcastChannel === 'undefined') return EMPTY;
+
+  return new Observable<Action>((subscriber) => {
+    const tabId = createCorrelationId();
+    const channel = new BroadcastChannel(name);
+
+    channel.onmessage = ({ data }: MessageEvent<TabSyncMessage>) => {
+      if (data.origin === tabId) return;
+      if (data.state) {
+        subscriber.next(tabStateSynced({ channel: name, state: data.state }));
+      } else if (data.action) {
+        const replayed: SyncedAction = {
+          ...data.action,
+          syncedFrom: data.origin,
+        };
+        subscriber.next(replayed);
+      }
+    };
+
+    const outgoing = actions$
+      .pipe(
+        ofType(...config.actions.map((creator) => creator.type)),
+        filter((action) => !isSyncedAction(action)),
+        withLatestFrom(state$ ?? of(null)),
+      )
+      .subscribe(([action, state]) => {
+        const message: TabSyncMessage =
+          mode === 'snapshot'
+            ? {
+                origin: tabId,
+                state: pickPersistedState(state as TState, keys),
+              }
+            : { origin: tabId, action };
+        try {
+          channel.postMessage(message);
+        } catch (error) {
+          onError(error);
+        }
+      });
+
+    return () => {
+      outgoing.unsubscribe();
+      channel.close();
+    };
+  });
+}
+
+/** Merges snapshots received by a snapshot-mode createTabSyncEffect. */
+export function createTabSyncMetaReducer<TState>(
+  config: Pick<TabSyncConfig<TState>, 'channel'>,
+): MetaReducer<TState> {
+  return (reducer) => (state, action) => {
+    const next = reducer(state, action);
+    if (action.type !== tabStateSynced.type) return next;
+    const synced = action as ReturnType<typeof tabStateSynced>;
+    return synced.channel === config.channel
+      ? mergePersistedState(next, synced.state)
+      : next;
+  };
+}
@@ -0,0 +1,94 @@
+import {
+  SafeParseSchema,
+  validators as v,
+  zodValidator,
+} from './generic-state.validation';
+
+describe('validators', () => {
+  const finding = v.object({
+    id: v.number(),
+    severity: v.oneOf('low', 'high', 'critical'),
+    fixed: v.boolean(),
+    cve: v.nullable(v.string()),
+    tags: v.optional(v.array(v.string())),
+  });
+
+  it('should return valid values typed and unchanged', () => {
+    const value = { id: 1, severity: 'high' as const, fixed: false, cve: null };
+    const result = finding.validate(value);
+
+    expect(result).toEqual({ ok: true, value });
+    if (result.ok) {
+      const severity: 'low' | 'high' | 'critical' = result.value.severity;
+      expect(severity).toBe('high');
+    }
+  });
+
+  it('should report every issue with its path', () => {
+    expect(
+      v.array(finding).validate([
+        { id: 1, severity: 'high', fixed: false, cve: null },
+        { id: '2', severity: 'urgent', fixed: false, cve: 7, tags: [1] },
+      ]),
+    ).toEqual({
+      ok: false,
+      issues: [
+        { path: [1, 'id'], message: 'Expected number, received string' },
+        {
+          path: [1, 'severity'],
+          message: 'Expected one of low, high, critical, received string',
+        },
+        { path: [1, 'cve'], message: 'Expected string, received number' },
+        { path: [1, 'tags', 0], message: 'Expected string, received number' },
+      ],
+    });
+    expect(finding.validate(null)).toEqual({
+      ok: false,
+      issues: [{ path: [], message: 'Expected object, received null' }],
+    });
+  });
+
+  it('should coerce primitives and strip unknown properties on request', () => {
+    const response = {
+      id: '7',
+      severity: 'low',
+      fixed: 'true',
+      cve: 2021,
+      scanner: 'internal',
+    };
+
+    expect(finding.validate(response).ok).toBeFalse();
+    const coerced = finding.validate(response, { coerce: true });
+    expect(coerced.ok && coerced.value).toEqual(
+      jasmine.objectContaining({ id: 7, cve: '2021', scanner: 'internal' }),
+    );
+    expect(finding.validate(response, { coerce: true, strip: true })).toEqual({
+      ok: true,
+      value: { id: 7, severity: 'low', fixed: true, cve: '2021' },
+    });
+  });
+});
+
+describe('zodValidator', () => {
+  // Stands in for a zod schema, which exposes the same safeParse result
+  const schema: SafeParseSchema<{ id: number }> = {
+    safeParse: (value) =>
+      typeof (value as { id?: unknown })?.id === 'number'
+        ? { success: true, data: value as { id: number } }
+        : {
+            success: false,
+            error: { issues: [{ path: ['id'], message: 'Required' }] },
+          },
+  };
+
+  it('should map safeParse results and issues', () => {
+    expect(zodValidator(schema).validate({ id: 1 })).toEqual({
+      ok: true,
+      value: { id: 1 },
+    });
+    expect(zodValidator(schema).validate({})).toEqual({
+      ok: false,
+      issues: [{ path: ['id'], message: 'Required' }],
+    });
+  });
+});
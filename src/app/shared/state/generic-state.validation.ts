@@ -0,0 +1,205 @@
+import { ValidationIssue } from './generic-state.models';
+
+/** ===== Validation Types ===== */
+
+export interface ValidationOptions {
+  // Converts values of another primitive type, e.g. "42" where a number is expected
+  coerce?: boolean;
+  // Drops object properties the schema does not declare; they are kept by default
+  strip?: boolean;
+}
+
+export type ValidationResult<T> =
+  { ok: true; value: T } | { ok: false; issues: ValidationIssue[] };
+
+/** Checks an untrusted value and returns it typed (and possibly coerced or stripped). */
+export interface ResponseValidator<T> {
+  validate(value: unknown, options?: ValidationOptions): ValidationResult<T>;
+}
+
+export type ValidatedType<V> = V extends ResponseValidator<infer T> ? T : never;
+
+type OptionalKeys<S> = {
+  [K in keyof S]: undefined extends ValidatedType<S[K]> ? K : never;
+}[keyof S];
+
+// Properties whose validator accepts undefined are optional
+export type ValidatedObject<S> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: ValidatedType<S[K]>;
+} & { [K in OptionalKeys<S>]?: ValidatedType<S[K]> };
+
+// Response check of the load effects; the options are passed to the schema
+export interface ResponseValidation<T> extends ValidationOptions {
+  schema: ResponseValidator<T>;
+}
+
+// The part of a zod schema zodValidator uses; other libraries with the same safeParse work too
+export interface SafeParseSchema<T> {
+  safeParse(value: unknown):
+    | { success: true; data: T }
+    | {
+        success: false;
+        error: { issues: { path: (string | number)[]; message: string }[] };
+      };
+}
+
+// StateError.code of loads whose response failed validation
+export const INVALID_RESPONSE_CODE = 'INVALID_RESPONSE';
+
+/** ===== Validation Helpers ===== */
+
+function valid<T>(value: T): ValidationResult<T> {
+  return { ok: true, value };
+}
+
+function invalid(expected: string, value: unknown): ValidationResult<never> {
+  const received =
+    value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+  return {
+    ok: false,
+    issues: [
+      { path: [], message: `Expected ${expected}, received ${received}` },
+    ],
+  };
+}
+
+function validator<T>(
+  validate: (value: unknown, options: ValidationOptions) => ValidationResult<T>,
+): ResponseValidator<T> {
+  return { validate: (value, options = {}) => validate(value, options) };
+}
+
+// Validates the parts of a value, prefixing their issues with the part's key
+function validateParts<T>(
+  parts: [string | number, ResponseValidator<T>, unknown][],
+  options: ValidationOptions,
+): ValidationResult<Map<string | number, T>> {
+  const values = new Map<string | number, T>();
+  const issues: ValidationIssue[] = [];
+  parts.forEach(([key, part, value]) => {
+    const result = part.validate(value, options);
+    if (result.ok) values.set(key, result.value);
+    else {
+      issues.push(
+        ...result.issues.map((issue) => ({
+          ...issue,
+          path: [key, ...issue.path],
+        })),
+      );
+    }
+  });
+  return issues.length > 0 ? { ok: false, issues } : valid(values);
+}
+
+/** Formats an issue path for StateError.fieldErrors, e.g. "items.3.severity". */
+export function formatIssuePath(path: ValidationIssue['path']): string {
+  return path.length > 0 ? path.join('.') : '(response)';
+}
+
+// Schemas for common response shapes, e.g. validators.array(validators.object({ id: validators.number() }))
+export const validators = {
+  string: (): ResponseValidator<string> =>
+    validator((value, { coerce }) => {
+      if (typeof value === 'string') return valid(value);
+      if (coerce && (typeof value === 'number' || typeof value === 'boolean')) {
+        return valid(String(value));
+      }
+      return invalid('string', value);
+    }),
+  number: (): ResponseValidator<number> =>
+    validator((value, { coerce }) => {
+      if (typeof value === 'number' && !Number.isNaN(value))
+        return valid(value);
+      const coerced =
+        coerce && typeof value === 'string' && value.trim() !== ''
+          ? Number(value)
+          : NaN;
+      return Number.isFinite(coerced)
+        ? valid(coerced)
+        : invalid('number', value);
+    }),
+  boolean: (): ResponseValidator<boolean> =>
+    validator((value, { coerce }) => {
+      if (typeof value === 'boolean') return valid(value);
+      if (coerce && (value === 'true' || value === 'false')) {
+        return valid(value === 'true');
+      }
+      return invalid('boolean', value);
+    }),
+  // One of the given literals, e.g. validators.oneOf('low', 'high')
+  oneOf: <T extends string | number | boolean>(
+    ...allowed: T[]
+  ): ResponseValidator<T> =>
+    validator((value) =>
+      allowed.includes(value as T)
+        ? valid(value as T)
+        : invalid(`one of ${allowed.join(', ')}`, value),
+    ),
+  array: <T>(item: ResponseValidator<T>): ResponseValidator<T[]> =>
+    validator((value, options) => {
+      if (!Array.isArray(value)) return invalid('array', value);
+      const result = validateParts(
+        value.map((element, index) => [index, item, element]),
+        options,
+      );
+      return result.ok ? valid([...result.value.values()]) : result;
+    }),
+  object: <S extends Record<string, ResponseValidator<unknown>>>(
+    shape: S,
+  ): ResponseValidator<ValidatedObject<S>> =>
+    validator((value, options) => {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return invalid('object', value);
+      }
+      const source = value as Record<string, unknown>;
+      const result = validateParts(
+        Object.entries(shape).map(([key, property]) => [
+          key,
+          property,
+          source[key],
+        ]),
+        options,
+      );
+      if (!result.ok) return result;
+      const declared = Object.fromEntries(
+        [...result.value].filter(([, property]) => property !== undefined),
+      );
+      return valid({
+        ...(options.strip ? {} : source),
+        ...declared,
+      } as ValidatedObject<S>);
+    }),
+  optional: <T>(
+    inner: ResponseValidator<T>,
+  ): ResponseValidator<T | undefined> =>
+    validator((value, options) =>
+      value === undefined ? valid(undefined) : inner.validate(value, options),
+    ),
+  nullable: <T>(inner: ResponseValidator<T>): ResponseValidator<T | null> =>
+    validator((value, options) =>
+      value === null ? valid(null) : inner.validate(value, options),
+    ),
+};
+
+/**
+ * Adapts a zod schema. Coercion and unknown keys are up to the schema (z.coerce,
+ * .strip() or .passthrough()), so the validation options are ignored.
+ */
+export function zodValidator<T>(
+  schema: SafeParseSchema<T>,
+): ResponseValidator<T> {
+  return {
+    validate: (value) => {
+      const result = schema.safeParse(value);
+      return result.success
+        ? valid(result.data)
+        : {
+            ok: false,
+            issues: result.error.issues.map(({ path, message }) => ({
+              path: [...path],
+              message,
+            })),
+          };
+    },
+  };
+}
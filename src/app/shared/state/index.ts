@@ -0,0 +1,15 @@
+export * from './generic-state.actions';
+export * from './generic-state.effects';
+export * from './generic-state.forms';
+export * from './generic-state.loading';
+export * from './generic-state.models';
+export * from './generic-state.notifications';
+export * from './generic-state.orchestration';
+export * from './generic-state.persistence';
+export * from './generic-state.reducer';
+export * from './generic-state.router';
+export * from './generic-state.selectors';
+export * from './generic-state.signals';
+export * from './generic-state.stream';
+export * from './generic-state.sync';
+export * from './generic-state.validation';
@@ -0,0 +1,48 @@
+import {
+  createAddActions,
+  createLoadActions,
+  operationRetrying,
+} from '../generic-state.actions';
+import { createAddEffect, createLoadEffect } from '../generic-state.effects';
+import { runEffectHarness } from './effect-harness';
+
+describe('runEffectHarness', () => {
+  const ScanActions = createLoadActions<string[]>('Scan');
+  const TargetActions = createAddActions<string, string>('Target');
+
+  it('should drive createLoadEffect in virtual time', () => {
+    runEffectHarness(({ actions, service, expectObservable }) => {
+      const load = ScanActions.load({});
+      const loadService = service('--a|', { a: ['api'] });
+
+      expectObservable(
+        createLoadEffect(actions('-l', { l: load }), ScanActions, loadService),
+      ).toBe('---s', {
+        s: ScanActions.loadSuccess({
+          data: ['api'],
+          message: undefined,
+          params: undefined,
+          cacheKey: null,
+          loadedAt: 3,
+        }),
+      });
+    });
+  });
+
+  it('should play retries of createAddEffect on the marble timeline', () => {
+    runEffectHarness(({ actions, service, expectObservable }) => {
+      const add = TargetActions.add({ payload: 'api' });
+      const addService = service<string>('-#', {}, { status: 503 });
+
+      expectObservable(
+        createAddEffect(actions('a', { a: add }), TargetActions, addService, {
+          retry: { maxAttempts: 2, backoffMs: 10, jitter: 0 },
+          idempotent: true,
+        }),
+      ).toBe('-r 10ms f', {
+        r: operationRetrying({ action: add, attempt: 2, maxAttempts: 2 }),
+        f: jasmine.objectContaining({ type: TargetActions.addFailure.type }),
+      });
+    });
+  });
+});
@@ -0,0 +1,42 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Actions } from '@ngrx/effects';
+import { Action } from '@ngrx/store';
+import { Observable } from 'rxjs';
+import { RunHelpers, TestScheduler } from 'rxjs/testing';
+
+export interface EffectHarnessHelpers extends RunHelpers {
+  // Hot actions stream for the effect, e.g. actions('-a', { a: load })
+  actions(marbles: string, values?: Record<string, Action>): Actions;
+  // Fake service; every call answers with the cold timeline, e.g. service('--a|', { a: data })
+  service<T>(
+    marbles: string,
+    values?: Record<string, T>,
+    error?: unknown,
+  ): jasmine.Spy<(...args: any[]) => Observable<T>>;
+}
+
+/**
+ * Runs an effect test in virtual time. Date.now() follows the virtual clock, so
+ * timestamps such as loadedAt equal the frame they are emitted in.
+ */
+export function runEffectHarness(
+  callback: (helpers: EffectHarnessHelpers) => void,
+): void {
+  const scheduler = new TestScheduler((actual, expected) =>
+    expect(actual).toEqual(expected),
+  );
+  if (!jasmine.isSpy(Date.now)) {
+    spyOn(Date, 'now').and.callFake(() => scheduler.now());
+  }
+
+  scheduler.run((helpers) =>
+    callback({
+      ...helpers,
+      actions: (marbles, values) => new Actions(helpers.hot(marbles, values)),
+      service: (marbles, values, error) =>
+        jasmine
+          .createSpy('service')
+          .and.callFake(() => helpers.cold(marbles, values, error)),
+    }),
+  );
+}
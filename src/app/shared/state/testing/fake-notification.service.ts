@@ -0,0 +1,30 @@
+import { Injectable } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+
+import {
+  Notification,
+  NotificationService,
+} from '../generic-state.notifications';
+
+/**
+ * Records notifications instead of showing them.
+ * Provide with `{ provide: NotificationService, useClass: FakeNotificationService }`.
+ */
+@Injectable()
+export class FakeNotificationService extends NotificationService {
+  readonly shown: Notification[] = [];
+  private readonly clicks: Subject<void>[] = [];
+
+  show(notification: Notification): Observable<void> {
+    const click = new Subject<void>();
+    this.shown.push(notification);
+    this.clicks.push(click);
+    return click;
+  }
+
+  // Clicks the action button of a notification; the latest one by default
+  clickAction(index = this.shown.length - 1): void {
+    this.clicks[index]?.next();
+    this.clicks[index]?.complete();
+  }
+}
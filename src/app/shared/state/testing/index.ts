@@ -0,0 +1,5 @@
+export * from './effect-harness';
+export * from './fake-notification.service';
+export * from './mock-feature-store';
+export * from './mock-stream-server';
+export * from './reducer-contract';
@@ -0,0 +1,35 @@
+import { TestBed } from '@angular/core/testing';
+
+import { createDefaultState, DefaultState } from '../generic-state.models';
+import { createGenericSelectors } from '../generic-state.selectors';
+import { createMockFeatureStore } from './mock-feature-store';
+
+interface ScanState {
+  scans: DefaultState<string[]>;
+  currentPageNumber: number;
+}
+
+describe('createMockFeatureStore', () => {
+  const selectors = createGenericSelectors<ScanState, string[]>('scm', 'scans');
+
+  it('should serve the feature state to selectors and patch single slices', () => {
+    const mock = createMockFeatureStore<ScanState>('scm', {
+      scans: createDefaultState<string[]>(),
+      currentPageNumber: 1,
+    });
+    TestBed.configureTestingModule({ providers: mock.providers });
+    const seen: boolean[] = [];
+    mock
+      .store()
+      .select(selectors.selectIsLoading)
+      .subscribe((isLoading) => seen.push(isLoading));
+
+    mock.patchSlice('scans', { isLoading: true });
+    mock.setState({ currentPageNumber: 2 });
+
+    expect(seen).toEqual([false, true]);
+    expect(mock.store().selectSignal(selectors.selectFeature)()).toEqual(
+      jasmine.objectContaining({ currentPageNumber: 2 }),
+    );
+  });
+});
@@ -0,0 +1,40 @@
+import { Provider } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { MockStore, provideMockStore } from '@ngrx/store/testing';
+
+import { SliceState } from '../generic-state.models';
+
+export interface MockFeatureStore<TState> {
+  // Add to the TestBed providers
+  providers: Provider[];
+  // The MockStore of the current TestBed
+  store(): MockStore;
+  setState(patch: Partial<TState>): void;
+  // Merges operation flags or data into one slice, e.g. { isLoading: true }
+  patchSlice(stateKey: keyof TState, patch: Partial<SliceState>): void;
+}
+
+/** A MockStore holding one feature state, for testing components and effects that select from it. */
+export function createMockFeatureStore<TState>(
+  featureName: string,
+  initialState: TState,
+): MockFeatureStore<TState> {
+  let state = initialState;
+
+  const setState = (patch: Partial<TState>) => {
+    state = { ...state, ...patch };
+    TestBed.inject(MockStore).setState({ [featureName]: state });
+  };
+
+  return {
+    providers: [
+      provideMockStore({ initialState: { [featureName]: initialState } }),
+    ],
+    store: () => TestBed.inject(MockStore),
+    setState,
+    patchSlice: (stateKey, patch) =>
+      setState({
+        [stateKey]: { ...(state[stateKey] as object), ...patch },
+      } as Partial<TState>),
+  };
+}
@@ -0,0 +1,29 @@
+import { MockStreamServer } from './mock-stream-server';
+
+describe('MockStreamServer', () => {
+  it('should stand in for WebSocket only while started', () => {
+    const original = globalThis.WebSocket;
+    const server = new MockStreamServer().start();
+    const socket = new WebSocket('wss://scanner.test');
+    server.stop();
+
+    expect(server.clients).toEqual([socket as never]);
+    expect(globalThis.WebSocket).toBe(original);
+  });
+
+  it('should deliver messages to connected clients only', () => {
+    const server = new MockStreamServer().start();
+    const received: string[] = [];
+    const open = new EventSource('/events');
+    const closed = new EventSource('/events');
+    open.onmessage = ({ data }) => received.push(data);
+    closed.onmessage = ({ data }) => received.push(data);
+    closed.close();
+
+    server.send({ id: 1 });
+    server.stop();
+
+    expect(server.connected.length).toBe(1);
+    expect(received).toEqual(['{"id":1}']);
+  });
+});
@@ -0,0 +1,87 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+type Listener = ((event: any) => void) | null;
+
+/** Browser end of a MockStreamServer connection, standing in for WebSocket and EventSource. */
+export class MockStreamClient {
+  onopen: Listener = null;
+  onmessage: Listener = null;
+  onerror: Listener = null;
+  onclose: Listener = null;
+  // Messages the client sent over a WebSocket
+  readonly sent: string[] = [];
+  closed = false;
+
+  constructor(
+    readonly url: string,
+    readonly kind: 'websocket' | 'eventsource',
+  ) {}
+
+  send(data: string): void {
+    this.sent.push(data);
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+}
+
+/**
+ * Fake feed transport that lives in memory; no socket is opened. While started it
+ * replaces the WebSocket and EventSource globals, so webSocketSource and
+ * serverSentEventsSource connect to it instead of a real server.
+ */
+export class MockStreamServer {
+  readonly clients: MockStreamClient[] = [];
+  private originals: Record<'WebSocket' | 'EventSource', unknown> | null = null;
+
+  start(): this {
+    const register = (client: MockStreamClient) => {
+      this.clients.push(client);
+      return client;
+    };
+    this.originals = {
+      WebSocket: (globalThis as any).WebSocket,
+      EventSource: (globalThis as any).EventSource,
+    };
+    (globalThis as any).WebSocket = function (url: string) {
+      return register(new MockStreamClient(url, 'websocket'));
+    };
+    (globalThis as any).EventSource = function (url: string) {
+      return register(new MockStreamClient(url, 'eventsource'));
+    };
+    return this;
+  }
+
+  stop(): void {
+    if (this.originals) Object.assign(globalThis, this.originals);
+    this.originals = null;
+  }
+
+  // Clients that are still connected
+  get connected(): MockStreamClient[] {
+    return this.clients.filter((client) => !client.closed);
+  }
+
+  accept(): void {
+    this.connected.forEach((client) => client.onopen?.({}));
+  }
+
+  // Sends the message as JSON to every connected client
+  send(message: unknown): void {
+    const data = JSON.stringify(message);
+    this.connected.forEach((client) => client.onmessage?.({ data }));
+  }
+
+  // Closes every connection, cleanly or as a network failure
+  disconnect(clean = true): void {
+    this.connected.forEach((client) => {
+      client.closed = true;
+      if (client.kind === 'eventsource') {
+        client.onerror?.({});
+      } else {
+        if (!clean) client.onerror?.({});
+        client.onclose?.({ wasClean: clean, code: clean ? 1000 : 1006 });
+      }
+    });
+  }
+}
@@ -0,0 +1,105 @@
+import { createCrudActions, createLoadActions } from '../generic-state.actions';
+import {
+  createDefaultState,
+  createEntityCollectionState,
+  DefaultState,
+  EntityCollectionState,
+} from '../generic-state.models';
+import { createGenericReducer } from '../generic-state.reducer';
+import { describeGenericReducerContract } from './reducer-contract';
+
+interface Finding {
+  id: number;
+  title: string;
+}
+
+const data: Finding[] = [
+  { id: 1, title: 'SQL injection' },
+  { id: 2, title: 'Weak cipher' },
+];
+const item: Finding = { id: 2, title: 'Weak cipher (fixed)' };
+
+interface ListState {
+  findings: DefaultState<Finding[]>;
+}
+
+const ListActions = createCrudActions<Finding[]>('Finding List');
+const listInitialState: ListState = {
+  findings: createDefaultState<Finding[]>(),
+};
+
+describeGenericReducerContract('createGenericReducer with callbacks', {
+  reducer: createGenericReducer<ListState, Finding[]>({
+    actions: ListActions,
+    initialState: listInitialState,
+    stateKey: 'findings',
+    onAddSuccess: (state, added) => ({
+      findings: {
+        ...state.findings,
+        data: [...(state.findings.data ?? []), added],
+      },
+    }),
+  }),
+  actions: ListActions,
+  initialState: listInitialState,
+  stateKey: 'findings',
+  data,
+  item: { id: 3, title: 'Open redirect' },
+  merges: false,
+});
+
+interface CatalogState {
+  findings: EntityCollectionState<Finding>;
+}
+
+const CatalogActions = createCrudActions<Finding[]>('Finding Catalog');
+const catalogInitialState: CatalogState = {
+  findings: createEntityCollectionState<Finding>(),
+};
+
+describeGenericReducerContract('createGenericReducer in entity mode', {
+  reducer: createGenericReducer<CatalogState, Finding[]>({
+    actions: CatalogActions,
+    initialState: catalogInitialState,
+    stateKey: 'findings',
+    entity: {},
+  }),
+  actions: CatalogActions,
+  initialState: catalogInitialState,
+  stateKey: 'findings',
+  data,
+  item,
+});
+
+const TriageActions = createCrudActions<Finding[]>('Finding Triage');
+
+describeGenericReducerContract('createGenericReducer in optimistic mode', {
+  reducer: createGenericReducer<CatalogState, Finding[]>({
+    actions: TriageActions,
+    initialState: catalogInitialState,
+    stateKey: 'findings',
+    entity: {},
+    optimistic: true,
+  }),
+  actions: TriageActions,
+  initialState: catalogInitialState,
+  stateKey: 'findings',
+  data,
+  item,
+  payload: { title: item.title },
+});
+
+const SummaryActions = createLoadActions<Finding[]>('Finding Summary');
+
+describeGenericReducerContract('createGenericReducer with load actions only', {
+  reducer: createGenericReducer<ListState, Finding[]>({
+    actions: SummaryActions,
+    initialState: listInitialState,
+    stateKey: 'findings',
+  }),
+  actions: SummaryActions,
+  initialState: listInitialState,
+  stateKey: 'findings',
+  data,
+  item,
+});
@@ -0,0 +1,187 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { ActionReducer } from '@ngrx/store';
+
+import { CrudActionsGroup } from '../generic-state.actions';
+import {
+  createStateError,
+  EntityId,
+  EntityOf,
+  isEntityCollection,
+  isSliceLoaded,
+  SliceState,
+} from '../generic-state.models';
+
+export interface ReducerContractConfig<TState, TData> {
+  reducer: ActionReducer<TState>;
+  actions: Partial<CrudActionsGroup<TData, any, any, any>>;
+  initialState: TState;
+  stateKey: keyof TState;
+  // Loaded data; must contain an entity with the id of `item`
+  data: TData;
+  // Returned by add and update; update and delete target its id
+  item: EntityOf<TData>;
+  // Sent with add and update; defaults to {}
+  payload?: unknown;
+  // Whether add/update/delete successes change the data; defaults to true in entity mode
+  merges?: boolean;
+  selectId?: (entity: EntityOf<TData>) => EntityId;
+}
+
+function entitiesOf(slice: SliceState): unknown[] {
+  if (isEntityCollection(slice)) {
+    return slice.ids.map((id) => slice.entities[id]);
+  }
+  return Array.isArray(slice.data) ? slice.data : [];
+}
+
+/**
+ * Registers specs proving that a reducer built on createGenericReducer handles the
+ * load/add/update/delete/reset lifecycle of its actions. Groups whose actions are
+ * missing are skipped.
+ */
+export function describeGenericReducerContract<TState, TData>(
+  description: string,
+  config: ReducerContractConfig<TState, TData>,
+): void {
+  const { reducer, actions, initialState, stateKey, data, item } = config;
+  const payload = config.payload ?? {};
+  const selectId = config.selectId ?? ((entity: any): EntityId => entity.id);
+  const id = selectId(item);
+  const error = createStateError('Contract failure');
+  const slice = (state: TState) => state[stateKey] as SliceState;
+  const merges = config.merges ?? isEntityCollection(slice(initialState));
+  const findItem = (state: TState) =>
+    entitiesOf(slice(state)).find((entity) => selectId(entity as any) === id);
+
+  describe(`${description} (generic reducer contract)`, () => {
+    let loaded: TState;
+
+    beforeEach(() => {
+      loaded = actions.loadSuccess
+        ? reducer(initialState, actions.loadSuccess({ data }))
+        : initialState;
+    });
+
+    if (actions.load && actions.loadSuccess && actions.loadFailure) {
+      const { load, loadSuccess, loadFailure } = actions;
+
+      it('should track a load from start to success', () => {
+        const loading = reducer(initialState, load({ forceReload: true }));
+        expect(slice(loading).isLoading).toBeTrue();
+
+        const done = reducer(loading, loadSuccess({ data }));
+        expect(slice(done).isLoading).toBeFalse();
+        expect(slice(done).error).toBeNull();
+        expect(isSliceLoaded(slice(done))).toBeTrue();
+        if (Array.isArray(data)) {
+          expect(entitiesOf(slice(done))).toEqual(
+            jasmine.arrayWithExactContents(data),
+          );
+        }
+      });
+
+      it('should record load failures', () => {
+        const failed = reducer(
+          reducer(initialState, load({ forceReload: true })),
+          loadFailure({ error }),
+        );
+        expect(slice(failed).isLoading).toBeFalse();
+        expect(slice(failed).error).toEqual(error);
+      });
+    }
+
+    if (actions.add && actions.addSuccess && actions.addFailure) {
+      const { add, addSuccess, addFailure } = actions;
+
+      it('should track an add from start to success', () => {
+        const adding = reducer(loaded, add({ payload }));
+        expect(slice(adding).isAdding).toBeTrue();
+
+        const done = reducer(adding, addSuccess({ item }));
+        expect(slice(done).isAdding).toBeFalse();
+        expect(slice(done).addError).toBeNull();
+        if (merges) expect(findItem(done)).toEqual(item);
+      });
+
+      it('should record add failures', () => {
+        const failed = reducer(
+          reducer(loaded, add({ payload })),
+          addFailure({ error }),
+        );
+        expect(slice(failed).isAdding).toBeFalse();
+        expect(slice(failed).addError).toEqual(error);
+      });
+    }
+
+    if (actions.update && actions.updateSuccess && actions.updateFailure) {
+      const { update, updateSuccess, updateFailure } = actions;
+
+      it('should track an update per entity from start to success', () => {
+        const request = update({ id, payload });
+        const updating = reducer(loaded, request);
+        expect(slice(updating).isUpdating).toBeTrue();
+        expect(slice(updating).updating[id]).toBeTrue();
+
+        const done = reducer(
+          updating,
+          updateSuccess({ item, id, correlationId: request.correlationId }),
+        );
+        expect(slice(done).isUpdating).toBeFalse();
+        expect(slice(done).updating).toEqual({});
+        if (merges) expect(findItem(done)).toEqual(item);
+      });
+
+      it('should record update failures per entity', () => {
+        const request = update({ id, payload });
+        const failed = reducer(
+          reducer(loaded, request),
+          updateFailure({ error, id, correlationId: request.correlationId }),
+        );
+        expect(slice(failed).isUpdating).toBeFalse();
+        expect(slice(failed).updateError).toEqual(error);
+        expect(slice(failed).entityErrors[id]).toEqual(error);
+      });
+    }
+
+    if (actions.delete && actions.deleteSuccess && actions.deleteFailure) {
+      const { delete: remove, deleteSuccess, deleteFailure } = actions;
+
+      it('should track a delete per entity from start to success', () => {
+        const request = remove({ id });
+        const deleting = reducer(loaded, request);
+        expect(slice(deleting).isDeleting).toBeTrue();
+        expect(slice(deleting).deleting[id]).toBeTrue();
+
+        const done = reducer(
+          deleting,
+          deleteSuccess({ id, correlationId: request.correlationId }),
+        );
+        expect(slice(done).isDeleting).toBeFalse();
+        expect(slice(done).deleting).toEqual({});
+        if (merges) expect(findItem(done)).toBeUndefined();
+      });
+
+      it('should record delete failures per entity', () => {
+        const request = remove({ id });
+        const failed = reducer(
+          reducer(loaded, request),
+          deleteFailure({ error, id, correlationId: request.correlationId }),
+        );
+        expect(slice(failed).isDeleting).toBeFalse();
+        expect(slice(failed).deleteError).toEqual(error);
+        expect(slice(failed).entityErrors[id]).toEqual(error);
+      });
+    }
+
+    if (actions.reset) {
+      const { reset } = actions;
+
+      it('should restore the initial slice on reset', () => {
+        const dirty = actions.loadFailure
+          ? reducer(loaded, actions.loadFailure({ error }))
+          : loaded;
+        expect(slice(reducer(dirty, reset()))).toEqual(slice(initialState));
+      });
+    }
+  });
+}